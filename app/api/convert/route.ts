@@ -0,0 +1,52 @@
+import { MAX_UPLOAD_BYTES, formatBytes } from "@/lib/api-proxy"
+import { apiError, proxyToBackend, readBodyWithLimit } from "@/lib/backend-proxy"
+
+// The multipart overhead is small, so the body only gets a little headroom over the file limit
+const MAX_BODY_BYTES = MAX_UPLOAD_BYTES + 64 * 1024
+
+// Proxies image uploads to the backend's /api/v1/convert, set VIS3D_API_BASE_URL to pick the backend
+export async function POST(request: Request) {
+  // Reject oversized uploads before buffering the body
+  const declaredLength = Number(request.headers.get("content-length"))
+  if (declaredLength > MAX_BODY_BYTES) {
+    return apiError(413, "upload_too_large", `Upload exceeds the ${formatBytes(MAX_UPLOAD_BYTES)} limit`)
+  }
+
+  // The header is optional (chunked uploads), so the body is read with a hard limit as well
+  const body = await readBodyWithLimit(request, MAX_BODY_BYTES)
+  if (!body) return apiError(413, "upload_too_large", `Upload exceeds the ${formatBytes(MAX_UPLOAD_BYTES)} limit`)
+
+  let file: FormDataEntryValue | null = null
+  try {
+    const formData = await new Response(body, {
+      headers: { "Content-Type": request.headers.get("content-type") ?? "" },
+    }).formData()
+    file = formData.get("file")
+  } catch {
+    return apiError(400, "invalid_upload", "Expected a multipart/form-data body")
+  }
+
+  if (!(file instanceof Blob)) {
+    return apiError(400, "invalid_upload", "Expected a multipart upload with a 'file' field")
+  }
+  if (file.size > MAX_UPLOAD_BYTES) {
+    return apiError(
+      413,
+      "upload_too_large",
+      `Upload is ${formatBytes(file.size)}, the limit is ${formatBytes(MAX_UPLOAD_BYTES)}`,
+    )
+  }
+  if (file.type && !file.type.startsWith("image/")) {
+    return apiError(415, "unsupported_media_type", `Expected an image, got ${file.type}`)
+  }
+
+  const formData = new FormData()
+  formData.append("file", file, file instanceof File ? file.name : "upload")
+
+  return proxyToBackend("/api/v1/convert", {
+    method: "POST",
+    body: formData,
+    headers: { Accept: request.headers.get("accept") ?? "application/json" },
+    signal: request.signal,
+  })
+}
@@ -0,0 +1,6 @@
+import { proxyToBackend } from "@/lib/backend-proxy"
+
+// Proxies the backend's health check
+export async function GET(request: Request) {
+  return proxyToBackend("/api/v1/health", { headers: { Accept: "application/json" }, signal: request.signal })
+}
@@ -0,0 +1,9 @@
+import { proxyToBackend } from "@/lib/backend-proxy"
+
+// Proxies the backend's sample point cloud
+export async function GET(request: Request) {
+  return proxyToBackend("/api/v1/sample", {
+    headers: { Accept: request.headers.get("accept") ?? "application/json" },
+    signal: request.signal,
+  })
+}
@@ -0,0 +1,14 @@
+import { BINARY_POINT_CLOUD_MIME } from "@/lib/binary-point-cloud"
+import { isShareId, loadShareCloud } from "@/lib/share-store"
+import { apiError } from "@/lib/backend-proxy"
+
+// The shared cloud itself, in the binary point cloud format
+export async function GET(_request: Request, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params
+  const cloud = isShareId(id) ? await loadShareCloud(id) : null
+  if (!cloud) return apiError(404, "not_found", "Shared cloud not found")
+
+  return new Response(new Uint8Array(cloud), {
+    headers: { "Content-Type": BINARY_POINT_CLOUD_MIME, "Cache-Control": "public, max-age=31536000, immutable" },
+  })
+}
@@ -0,0 +1,12 @@
+import { NextResponse } from "next/server"
+import { isShareId, loadShareState } from "@/lib/share-store"
+import { apiError } from "@/lib/backend-proxy"
+
+// View state (camera pose, viewer settings) of a shared cloud
+export async function GET(_request: Request, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params
+  const state = isShareId(id) ? await loadShareState(id) : null
+  if (!state) return apiError(404, "not_found", "Shared cloud not found")
+
+  return NextResponse.json(state, { headers: { "Cache-Control": "public, max-age=31536000, immutable" } })
+}
@@ -0,0 +1,70 @@
+import { NextResponse } from "next/server"
+import { decodeBinaryPointCloud } from "@/lib/binary-point-cloud"
+import { MAX_SHARE_BYTES, shareStateInputSchema } from "@/lib/share"
+import { SHARE_QUOTA_BYTES, getShareStoreUsage, saveShare } from "@/lib/share-store"
+import { apiError, clientKey, readBodyWithLimit } from "@/lib/backend-proxy"
+import { createRateLimiter } from "@/lib/rate-limit"
+
+// Room for the multipart framing and the state document next to the cloud
+const MAX_BODY_BYTES = MAX_SHARE_BYTES + 1024 * 1024
+
+// Shares per client and hour, kept in memory by this server process
+const shareLimiter = createRateLimiter({ limit: 20, windowMs: 60 * 60 * 1000 })
+
+// Stores a cloud with its camera pose and viewer settings, answers with the new share id
+export async function POST(request: Request) {
+  if (!shareLimiter.take(clientKey(request))) {
+    return apiError(429, "rate_limited", "Too many shares from this address, try again later")
+  }
+
+  const declaredLength = Number(request.headers.get("content-length"))
+  if (declaredLength > MAX_BODY_BYTES) {
+    return apiError(413, "upload_too_large", "Point cloud is too large to share")
+  }
+
+  // The header is optional (chunked uploads), so the body is read with a hard limit as well
+  const body = await readBodyWithLimit(request, MAX_BODY_BYTES)
+  if (!body) return apiError(413, "upload_too_large", "Point cloud is too large to share")
+
+  let cloud: FormDataEntryValue | null = null
+  let stateText: FormDataEntryValue | null = null
+  try {
+    const formData = await new Response(body, {
+      headers: { "Content-Type": request.headers.get("content-type") ?? "" },
+    }).formData()
+    cloud = formData.get("cloud")
+    stateText = formData.get("state")
+  } catch {
+    return apiError(400, "invalid_upload", "Expected a multipart/form-data body")
+  }
+
+  if (!(cloud instanceof Blob) || typeof stateText !== "string") {
+    return apiError(400, "invalid_upload", "Expected 'cloud' and 'state' fields")
+  }
+  if (cloud.size > MAX_SHARE_BYTES) {
+    return apiError(413, "upload_too_large", "Point cloud is too large to share")
+  }
+
+  let state
+  try {
+    state = shareStateInputSchema.parse(JSON.parse(stateText))
+  } catch (error) {
+    return apiError(400, "invalid_upload", "Invalid share state", error instanceof Error ? error.message : undefined)
+  }
+
+  const bytes = new Uint8Array(await cloud.arrayBuffer())
+  let points: number
+  try {
+    // Decoding checks the header and lengths, so only well-formed clouds are stored
+    points = decodeBinaryPointCloud(bytes.buffer).threejsData.metadata.points
+  } catch (error) {
+    return apiError(400, "invalid_upload", error instanceof Error ? error.message : "Invalid point cloud")
+  }
+
+  if ((await getShareStoreUsage()) + bytes.byteLength > SHARE_QUOTA_BYTES) {
+    return apiError(507, "quota_exceeded", "Share storage is full")
+  }
+
+  const stored = await saveShare(bytes, { ...state, points })
+  return NextResponse.json({ id: stored.id }, { status: 201 })
+}
@@ -0,0 +1,48 @@
+import { NextResponse } from "next/server"
+import { BINARY_POINT_CLOUD_MIME, encodeBinaryPointCloud } from "@/lib/binary-point-cloud"
+import { createMockConversion } from "@/lib/mock-conversion"
+
+// Local stand-in for the conversion API. Point VIS3D_API_BASE_URL at <origin>/mock to use it.
+// Answers in the binary encoding when the client accepts it, and in the JSON APIResponse otherwise.
+export async function POST(request: Request) {
+  let file: FormDataEntryValue | null = null
+  try {
+    file = (await request.formData()).get("file")
+  } catch {
+    // Falls through to the missing file error below
+  }
+
+  if (!(file instanceof Blob)) {
+    return NextResponse.json({ success: false, error: "Expected a multipart upload with a 'file' field" }, { status: 400 })
+  }
+
+  const { threejsData, depthImageBase64, originalImageBase64 } = createMockConversion(file.size)
+  const message = "Mock conversion (synthetic surface)"
+  const accept = request.headers.get("accept") ?? ""
+
+  if (accept.includes(BINARY_POINT_CLOUD_MIME)) {
+    const body = encodeBinaryPointCloud(threejsData, {
+      depth_image_base64: depthImageBase64,
+      original_image_base64: originalImageBase64,
+      message,
+    })
+    return new Response(body, { headers: { "Content-Type": BINARY_POINT_CLOUD_MIME, Vary: "Accept" } })
+  }
+
+  return NextResponse.json(
+    {
+      success: true,
+      message,
+      data: {
+        threejs_data: {
+          ...threejsData,
+          vertices: Array.from(threejsData.vertices),
+          colors: Array.from(threejsData.colors),
+        },
+        depth_image_base64: depthImageBase64,
+        original_image_base64: originalImageBase64,
+      },
+    },
+    { headers: { Vary: "Accept" } },
+  )
+}
@@ -0,0 +1,6 @@
+import { NextResponse } from "next/server"
+
+// Local stand-in for the health check
+export async function GET() {
+  return NextResponse.json({ status: "ok", mock: true })
+}
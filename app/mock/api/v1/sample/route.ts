@@ -0,0 +1,14 @@
+import { NextResponse } from "next/server"
+import { createMockConversion } from "@/lib/mock-conversion"
+
+// Local stand-in for the sample endpoint, same synthetic surface as the mock convert route
+export async function GET() {
+  const { threejsData } = createMockConversion(0)
+  return NextResponse.json({
+    threejs_data: {
+      ...threejsData,
+      vertices: Array.from(threejsData.vertices),
+      colors: Array.from(threejsData.colors),
+    },
+  })
+}
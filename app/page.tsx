@@ -3,6 +3,7 @@ import { FaceHandDetector } from "@/components/face-hand-detector"
 import { TwoDToThreeDVisualizer } from "@/components/2d-to-3d-visualizer"
 import { DirectApiVisualizer } from "@/components/direct-api-visualizer"
 import { SystemStatus } from "@/components/system-status"
+import { ApiProfilesDialog } from "@/components/api-profiles-dialog"
 
 export default function Dashboard() {
   return (
@@ -11,7 +12,10 @@ export default function Dashboard() {
       <header className="bg-blue-600 p-4 md:p-6">
         <div className="container mx-auto flex justify-between items-center">
           <h1 className="text-2xl md:text-3xl font-bold text-white">Vision Tools Dashboard</h1>
-          <span className="text-white">v1.0</span>
+          <div className="flex items-center gap-3">
+            <ApiProfilesDialog />
+            <span className="text-white">v1.0</span>
+          </div>
         </div>
       </header>
 
@@ -0,0 +1,30 @@
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { SharedCloudViewer } from "@/components/shared-cloud-viewer"
+
+export default async function SharedViewPage({ params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params
+
+  return (
+    <div className="min-h-screen bg-white">
+      <header className="bg-blue-600 p-4 md:p-6">
+        <div className="container mx-auto flex justify-between items-center">
+          <h1 className="text-2xl md:text-3xl font-bold text-white">Vision Tools Dashboard</h1>
+          <a href="/" className="text-white text-sm hover:underline">
+            Open dashboard
+          </a>
+        </div>
+      </header>
+
+      <main className="container mx-auto p-4 md:p-6">
+        <Card className="shadow-sm">
+          <CardHeader className="pb-2">
+            <CardTitle className="text-2xl font-bold">Shared point cloud</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <SharedCloudViewer id={id} />
+          </CardContent>
+        </Card>
+      </main>
+    </div>
+  )
+}
@@ -1,180 +1,233 @@
 "use client"
 
-import { useState } from "react"
+import { useEffect, useRef, useState } from "react"
 import { Eye } from "lucide-react"
 import { ImageUploader } from "./image-uploader"
 import { Visualizer3D } from "./visualizer-3d"
-
-interface ThreeJSData {
-  vertices: number[]
-  colors: number[]
-  metadata: {
-    version: number
-    type: string
-    points: number
-    width: number
-    height: number
-  }
-}
-
-interface APIResponse {
-  success: boolean
-  data: {
-    threejs_data: ThreeJSData
-    depth_image_base64?: string
-    original_image_base64?: string
-  }
-  message?: string
-  error?: string
-}
-
-// Helper function to emit system status updates
-const updateSystemStatus = (updates: any) => {
-  const event = new CustomEvent("systemStatusUpdate", { detail: updates })
-  window.dispatchEvent(event)
-}
-
-// Make sure to include https:// in the URL
-const API_BASE_URL = "https://vis3d.fly.dev"
+import { getPointCount, type ThreeJSData } from "@/lib/point-cloud"
+import { parsePointCloudFile } from "@/lib/point-cloud-import"
+import { convert, type ConvertProgress, type ConvertResult } from "@/lib/vis3d-api"
+import { createThumbnail } from "@/lib/image-preprocess"
+import { onCapturedFrame } from "@/lib/camera-capture"
+import { updateSystemStatus } from "@/lib/system-status"
+import { useApiProfiles } from "@/hooks/use-api-profiles"
+import { DepthReconstructionPanel } from "./depth-reconstruction-panel"
+import { DepthComparisonView } from "./depth-comparison-view"
+import { ConversionProgress } from "./conversion-progress"
+import { ConversionQueuePanel } from "./conversion-queue-panel"
+import { ConversionGallery } from "./conversion-gallery"
+import { useConversionQueue, type QueueItem } from "@/hooks/use-conversion-queue"
+import { useConversionHistory } from "@/hooks/use-conversion-history"
+import { ConversionHistoryPanel } from "./conversion-history-panel"
+
+// Large arrays are summarized so the debug view doesn't stringify the whole cloud
+const debugReplacer = (_key: string, value: unknown) =>
+  value instanceof Float32Array || (Array.isArray(value) && value.length > 20) ? `[${value.length} values]` : value
 
 export function TwoDToThreeDVisualizer() {
+  const { activeProfile } = useApiProfiles()
   const [isLoading, setIsLoading] = useState(false)
   const [threejsData, setThreejsData] = useState<ThreeJSData | null>(null)
   const [error, setError] = useState<string | null>(null)
   const [uploadedImage, setUploadedImage] = useState<File | null>(null)
   const [apiResponse, setApiResponse] = useState<string>("")
+  const [depthImage, setDepthImage] = useState<string | null>(null)
+  const [originalImage, setOriginalImage] = useState<string | null>(null)
+  const [showComparison, setShowComparison] = useState(true)
+  const [hoveredIndex, setHoveredIndex] = useState<number | null>(null)
+  const [progress, setProgress] = useState<ConvertProgress | null>(null)
+  const abortControllerRef = useRef<AbortController | null>(null)
+  const history = useConversionHistory()
+
+  const recordConversion = async (file: File, result: ConvertResult) => {
+    const thumbnail = await createThumbnail(file).catch(() => null)
+    const { width, height } = result.threejsData.metadata
+    await history.save({
+      name: file.name,
+      points: getPointCount(result.threejsData),
+      width,
+      height,
+      backend: { id: activeProfile.id, name: activeProfile.name, baseUrl: activeProfile.baseUrl },
+      thumbnail,
+      threejsData: result.threejsData,
+      depthImageBase64: result.depthImageBase64,
+      originalImageBase64: result.originalImageBase64,
+    })
+  }
+
+  const queue = useConversionQueue(activeProfile, (file, result) => {
+    void recordConversion(file, result).catch(history.reportError)
+  })
+  const [selectedQueueId, setSelectedQueueId] = useState<string | null>(null)
+
+  // Abort an in-flight conversion when the component unmounts
+  useEffect(() => () => abortControllerRef.current?.abort(), [])
+
+  useEffect(() => {
+    setHoveredIndex(null)
+  }, [threejsData])
+
+  // The one place the conversion status is reported, covering single uploads and the batch queue.
+  // Loading a point cloud file also sets isLoading, but without an uploaded image.
+  const isConverting = (isLoading && !!uploadedImage) || queue.isConverting
+  useEffect(() => {
+    updateSystemStatus({ imageConversion: isConverting })
+  }, [isConverting])
+  useEffect(() => () => updateSystemStatus({ imageConversion: false }), [])
 
   const handleImageUpload = async (file: File) => {
     setIsLoading(true)
     setError(null)
     setUploadedImage(file)
     setApiResponse("")
+    setDepthImage(null)
+    setOriginalImage(null)
+    setProgress(null)
 
-    // Update system status to show conversion is active
-    updateSystemStatus({ imageConversion: true })
+    abortControllerRef.current?.abort()
+    const controller = new AbortController()
+    abortControllerRef.current = controller
 
     try {
-      // Create form data with the file
-      const formData = new FormData()
-      formData.append("file", file)
-
-      console.log("Sending request to API with file:", file.name, file.type, file.size)
-      console.log("API URL:", `${API_BASE_URL}/api/v1/convert`)
-
-      const response = await fetch(`${API_BASE_URL}/api/v1/convert`, {
-        method: "POST",
-        body: formData,
-      })
-
-      console.log("API response status:", response.status)
-      console.log("API response headers:", Object.fromEntries(response.headers.entries()))
-
-      if (!response.ok) {
-        let errorDetail = `HTTP error! status: ${response.status}`
-        try {
-          const errorText = await response.text()
-          console.log("Error response body:", errorText.substring(0, 500))
-
-          // Check if the response is HTML (likely an error page)
-          if (errorText.trim().startsWith("<!DOCTYPE") || errorText.trim().startsWith("<html")) {
-            errorDetail += " - API returned HTML instead of JSON. Check the API URL and CORS settings."
-          } else {
-            errorDetail += ` - ${errorText}`
-          }
-        } catch (e) {
-          errorDetail += ` - ${response.statusText}`
-        }
-        throw new Error(errorDetail)
+      const result = await convert(activeProfile, file, { signal: controller.signal, onProgress: setProgress })
+      if (!result.ok) {
+        if (result.error.kind === "aborted") return
+        if (result.error.body) setApiResponse(result.error.body)
+        throw new Error(result.error.message)
       }
 
-      const responseText = await response.text()
-      console.log("Raw API response first 100 chars:", responseText.substring(0, 100))
-
-      // Check if the response is HTML
-      if (responseText.trim().startsWith("<!DOCTYPE") || responseText.trim().startsWith("<html")) {
-        throw new Error("API returned HTML instead of JSON. Check the API URL and CORS settings.")
-      }
-
-      let data: APIResponse
-      try {
-        data = JSON.parse(responseText)
-      } catch (parseError) {
-        console.error("Failed to parse JSON response:", parseError)
-        setApiResponse(responseText.substring(0, 1000))
-        throw new Error(`Invalid JSON response from API: ${parseError.message}`)
+      // Store response for debugging
+      setApiResponse(JSON.stringify(result.raw, debugReplacer, 2).substring(0, 1000) + "...")
+
+      const { threejsData, depthImageBase64, originalImageBase64 } = result.data
+      setThreejsData(threejsData)
+      setDepthImage(depthImageBase64)
+      setOriginalImage(originalImageBase64)
+      setSelectedQueueId(null)
+      void recordConversion(file, result.data).catch(history.reportError)
+    } catch (err) {
+      console.error("Conversion error:", err)
+      setError(err instanceof Error ? err.message : "Failed to convert image to 3D")
+    } finally {
+      // Skipped when a newer upload has taken over the loading state
+      if (abortControllerRef.current === controller) {
+        abortControllerRef.current = null
+        setIsLoading(false)
+        setProgress(null)
       }
+    }
+  }
 
-      console.log("Parsed API response structure:", {
-        success: data.success,
-        hasData: !!data.data,
-        hasThreejsData: !!data.data?.threejs_data,
-        dataKeys: data.data ? Object.keys(data.data) : [],
-      })
-
-      // Store response for debugging
-      setApiResponse(JSON.stringify(data, null, 2).substring(0, 1000) + "...")
+  const handlePointCloudUpload = async (file: File) => {
+    if (abortControllerRef.current) {
+      abortControllerRef.current.abort()
+      abortControllerRef.current = null
+      setProgress(null)
+    }
 
-      // Check if the API call was successful
-      if (!data.success) {
-        throw new Error(data.message || data.error || "API returned success: false")
-      }
+    setIsLoading(true)
+    setError(null)
+    setUploadedImage(null)
+    setApiResponse("")
+    setDepthImage(null)
+    setOriginalImage(null)
 
-      // Extract the 3D data from the correct nested structure
-      if (data.data && data.data.threejs_data) {
-        const threejsData = data.data.threejs_data
-
-        // Validate the 3D data structure
-        if (!threejsData.vertices || !threejsData.colors) {
-          throw new Error("Invalid 3D data: missing vertices or colors")
-        }
-
-        if (!Array.isArray(threejsData.vertices) || !Array.isArray(threejsData.colors)) {
-          throw new Error("Invalid 3D data: vertices and colors must be arrays")
-        }
-
-        if (threejsData.vertices.length === 0 || threejsData.colors.length === 0) {
-          throw new Error("Invalid 3D data: empty vertices or colors arrays")
-        }
-
-        // Ensure we have the correct ratio of vertices to colors (3:3 ratio)
-        const expectedColorLength = threejsData.vertices.length
-        if (threejsData.colors.length !== expectedColorLength) {
-          console.warn(
-            `Color array length (${threejsData.colors.length}) doesn't match vertex array length (${threejsData.vertices.length})`,
-          )
-        }
-
-        console.log("3D data extracted successfully:", {
-          vertices: threejsData.vertices.length,
-          colors: threejsData.colors.length,
-          points: threejsData.metadata?.points || threejsData.vertices.length / 3,
-          metadata: threejsData.metadata,
-        })
-
-        setThreejsData(threejsData)
-      } else {
-        console.log("API response structure:", data)
-        throw new Error("No 3D data found in API response")
-      }
+    try {
+      const data = await parsePointCloudFile(file)
+      setThreejsData(data)
     } catch (err) {
-      console.error("Conversion error:", err)
-      setError(err instanceof Error ? err.message : "Failed to convert image to 3D")
+      console.error("Point cloud import error:", err)
+      setThreejsData(null)
+      setError(err instanceof Error ? err.message : "Failed to read point cloud file")
     } finally {
       setIsLoading(false)
-      // Update system status to show conversion is complete
-      updateSystemStatus({ imageConversion: false })
     }
   }
 
+  const showQueueItem = (item: QueueItem) => {
+    if (!item.result) return
+    setSelectedQueueId(item.id)
+    setUploadedImage(item.file)
+    setError(null)
+    setApiResponse("")
+    setThreejsData(item.result.threejsData)
+    setDepthImage(item.result.depthImageBase64)
+    setOriginalImage(item.result.originalImageBase64)
+  }
+
+  const openHistoryEntry = async (id: string) => {
+    setError(null)
+    try {
+      const record = await history.load(id)
+      if (!record) throw new Error("This conversion is no longer in the history")
+      setSelectedQueueId(null)
+      setUploadedImage(null)
+      setApiResponse("")
+      setThreejsData(record.threejsData)
+      setDepthImage(record.depthImageBase64)
+      setOriginalImage(record.originalImageBase64)
+    } catch (err) {
+      console.error("Could not open conversion from history:", err)
+      setError(err instanceof Error ? err.message : "Could not open conversion from history")
+    }
+  }
+
+  const cancelConversion = () => {
+    abortControllerRef.current?.abort()
+  }
+
+  // Webcam frames from the detector card start a conversion straight away
+  const handleImageUploadRef = useRef(handleImageUpload)
+  handleImageUploadRef.current = handleImageUpload
+  useEffect(() => onCapturedFrame((file) => handleImageUploadRef.current(file)), [])
+
   const startVisualization = () => {
     if (uploadedImage) {
       handleImageUpload(uploadedImage)
     }
   }
 
+  // Stored with the cloud when it is shared
+  const shareImages = { depthImageBase64: depthImage, originalImageBase64: originalImage }
+
   return (
     <div className="space-y-4">
-      <ImageUploader onImageUpload={handleImageUpload} isLoading={isLoading} />
+      <ImageUploader
+        onImageUpload={handleImageUpload}
+        onPointCloudUpload={handlePointCloudUpload}
+        onBatchUpload={queue.enqueue}
+        isLoading={isLoading}
+      />
+
+      {queue.items.length > 0 && (
+        <ConversionQueuePanel
+          items={queue.items}
+          concurrency={queue.concurrency}
+          onConcurrencyChange={queue.setConcurrency}
+          onCancel={queue.cancel}
+          onRetry={queue.retry}
+          onRemove={queue.remove}
+          onClearFailed={queue.clearFailed}
+        />
+      )}
+
+      <ConversionGallery items={queue.items} selectedId={selectedQueueId} onSelect={showQueueItem} />
+
+      <ConversionHistoryPanel
+        entries={history.entries}
+        estimate={history.estimate}
+        error={history.error}
+        onOpen={openHistoryEntry}
+        onDelete={history.remove}
+      />
+
+      {isLoading && uploadedImage && (
+        <ConversionProgress
+          progress={progress}
+          timeoutSeconds={Math.round(activeProfile.timeoutMs / 1000)}
+          onCancel={cancelConversion}
+        />
+      )}
 
       {uploadedImage && !isLoading && !threejsData && (
         <button
@@ -199,7 +252,37 @@ export function TwoDToThreeDVisualizer() {
         </div>
       )}
 
-      <Visualizer3D threejsData={threejsData} isLoading={isLoading} />
+      {threejsData && depthImage && !isLoading && (
+        <label className="flex items-center gap-2 text-sm text-gray-600">
+          <input type="checkbox" checked={showComparison} onChange={(e) => setShowComparison(e.target.checked)} />
+          Show original and depth side by side
+        </label>
+      )}
+
+      <DepthComparisonView
+        threejsData={threejsData}
+        originalImageBase64={originalImage ?? undefined}
+        depthImageBase64={depthImage}
+        showImages={showComparison && !isLoading}
+        hoveredIndex={hoveredIndex}
+        onHoverIndex={setHoveredIndex}
+      >
+        <Visualizer3D
+          threejsData={threejsData}
+          isLoading={isLoading}
+          highlightIndex={hoveredIndex}
+          onPointHover={setHoveredIndex}
+          shareImages={shareImages}
+        />
+      </DepthComparisonView>
+
+      {depthImage && !isLoading && (
+        <DepthReconstructionPanel
+          depthImageBase64={depthImage}
+          originalImageBase64={originalImage ?? undefined}
+          onReconstruct={setThreejsData}
+        />
+      )}
 
       {threejsData && (
         <div className="bg-green-50 border border-green-200 rounded-md p-3">
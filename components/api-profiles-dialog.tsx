@@ -0,0 +1,181 @@
+"use client"
+
+import { useState } from "react"
+import { Plus, Server, Trash2 } from "lucide-react"
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog"
+import { useApiProfiles } from "@/hooks/use-api-profiles"
+import { PROXY_PROFILE, createApiProfile, validateBaseUrl, type ApiProfile } from "@/lib/api-profiles"
+import { health } from "@/lib/vis3d-api"
+
+export function ApiProfilesDialog() {
+  const { profiles, activeProfile, setActiveProfile, saveProfile, deleteProfile } = useApiProfiles()
+  const [draft, setDraft] = useState<ApiProfile | null>(null)
+  // Latest health check result per profile id
+  const [checks, setChecks] = useState<Record<string, string>>({})
+
+  const draftError = draft ? (draft.name.trim() ? validateBaseUrl(draft.baseUrl) : "Give the profile a name") : null
+
+  const handleSave = () => {
+    if (!draft || draftError) return
+    saveProfile({ ...draft, name: draft.name.trim(), baseUrl: draft.baseUrl.trim() })
+    setDraft(null)
+  }
+
+  const checkProfile = async (profile: ApiProfile) => {
+    setChecks((current) => ({ ...current, [profile.id]: "Checking..." }))
+    const result = await health(profile)
+    const status = result.ok ? `${result.data.status} · ${result.data.latencyMs} ms` : result.error.message
+    setChecks((current) => ({ ...current, [profile.id]: status }))
+  }
+
+  const updateDraft = (updates: Partial<ApiProfile>) => setDraft((current) => (current ? { ...current, ...updates } : current))
+
+  return (
+    <Dialog onOpenChange={(open) => !open && setDraft(null)}>
+      <DialogTrigger asChild>
+        <button className="flex items-center gap-1 bg-white/10 hover:bg-white/20 text-white text-sm px-3 py-1 rounded">
+          <Server className="h-4 w-4" />
+          {activeProfile.name}
+        </button>
+      </DialogTrigger>
+      <DialogContent className="bg-white">
+        <DialogHeader>
+          <DialogTitle>Backend profiles</DialogTitle>
+          <DialogDescription>
+            Pick the backend used for conversions and samples. Custom backends are called directly from the browser
+            and must allow CORS.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          {profiles.map((profile) => (
+            <div key={profile.id} className="flex items-center gap-2 border rounded-md p-2 text-sm">
+              <input
+                type="radio"
+                name="active-api-profile"
+                checked={profile.id === activeProfile.id}
+                onChange={() => setActiveProfile(profile.id)}
+              />
+              <div className="flex-1 min-w-0">
+                <p className="font-medium">{profile.name}</p>
+                <p className="text-xs text-gray-500 truncate">
+                  {profile.baseUrl || "Same-origin /api routes"} · {Math.round(profile.timeoutMs / 1000)}s timeout ·{" "}
+                  {profile.maxRetries} retries
+                  {profile.authHeaderValue ? ` · ${profile.authHeaderName}` : ""}
+                </p>
+                {checks[profile.id] && <p className="text-xs text-gray-700 truncate">{checks[profile.id]}</p>}
+              </div>
+              <button onClick={() => checkProfile(profile)} className="text-xs text-blue-600 hover:underline">
+                Check
+              </button>
+              {profile.id !== PROXY_PROFILE.id && (
+                <>
+                  <button onClick={() => setDraft(profile)} className="text-xs text-blue-600 hover:underline">
+                    Edit
+                  </button>
+                  <button
+                    onClick={() => deleteProfile(profile.id)}
+                    className="text-gray-400 hover:text-red-600"
+                    title="Delete profile"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </button>
+                </>
+              )}
+            </div>
+          ))}
+        </div>
+
+        {draft ? (
+          <div className="border rounded-md p-3 space-y-2 text-sm">
+            <label className="block">
+              Name
+              <input
+                value={draft.name}
+                onChange={(e) => updateDraft({ name: e.target.value })}
+                className="w-full border rounded px-2 py-1 mt-0.5"
+              />
+            </label>
+            <label className="block">
+              Base URL
+              <input
+                value={draft.baseUrl}
+                onChange={(e) => updateDraft({ baseUrl: e.target.value })}
+                placeholder="https://vis3d.fly.dev"
+                className="w-full border rounded px-2 py-1 mt-0.5"
+              />
+            </label>
+            <div className="flex gap-2">
+              <label className="block flex-1">
+                Auth header
+                <input
+                  value={draft.authHeaderName}
+                  onChange={(e) => updateDraft({ authHeaderName: e.target.value })}
+                  className="w-full border rounded px-2 py-1 mt-0.5"
+                />
+              </label>
+              <label className="block flex-1">
+                Value (optional)
+                <input
+                  type="password"
+                  value={draft.authHeaderValue}
+                  onChange={(e) => updateDraft({ authHeaderValue: e.target.value })}
+                  placeholder="Bearer ..."
+                  className="w-full border rounded px-2 py-1 mt-0.5"
+                />
+              </label>
+            </div>
+            <div className="flex gap-2">
+              <label className="block flex-1">
+                Timeout (seconds)
+                <input
+                  type="number"
+                  min={1}
+                  value={Math.round(draft.timeoutMs / 1000)}
+                  onChange={(e) => updateDraft({ timeoutMs: Math.max(1, Number(e.target.value) || 1) * 1000 })}
+                  className="w-full border rounded px-2 py-1 mt-0.5"
+                />
+              </label>
+              <label className="block flex-1">
+                Retries
+                <input
+                  type="number"
+                  min={0}
+                  max={5}
+                  value={draft.maxRetries}
+                  onChange={(e) => updateDraft({ maxRetries: Math.min(5, Math.max(0, Number(e.target.value) || 0)) })}
+                  className="w-full border rounded px-2 py-1 mt-0.5"
+                />
+              </label>
+            </div>
+            {draftError && <p className="text-xs text-red-600">{draftError}</p>}
+            <div className="flex justify-end gap-2">
+              <button onClick={() => setDraft(null)} className="px-3 py-1 rounded bg-gray-100">
+                Cancel
+              </button>
+              <button
+                onClick={handleSave}
+                disabled={!!draftError}
+                className="px-3 py-1 rounded bg-blue-600 text-white disabled:opacity-50"
+              >
+                Save profile
+              </button>
+            </div>
+          </div>
+        ) : (
+          <button
+            onClick={() => setDraft(createApiProfile())}
+            className="flex items-center gap-1 text-sm text-blue-600 hover:underline"
+          >
+            <Plus className="h-4 w-4" />
+            Add profile
+          </button>
+        )}
+
+        <p className="text-xs text-gray-500">
+          Profiles are stored in this browser only. Auth values are kept in local storage in plain text.
+        </p>
+      </DialogContent>
+    </Dialog>
+  )
+}
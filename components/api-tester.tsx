@@ -1,28 +1,39 @@
 "use client"
 
 import { useState } from "react"
-
-const API_BASE_URL = "https://miniature-space-trout-r5gx4664j7rfjqv-8000.app.github.dev"
+import { fetchFromProfile, getApiUrl } from "@/lib/api-profiles"
+import { useApiProfiles } from "@/hooks/use-api-profiles"
+import { health } from "@/lib/vis3d-api"
 
 export function ApiTester() {
+  const { activeProfile } = useApiProfiles()
   const [testResult, setTestResult] = useState<string>("")
   const [isLoading, setIsLoading] = useState(false)
 
   const testApiEndpoint = async () => {
     setIsLoading(true)
-    setTestResult("")
+    setTestResult(`Testing ${activeProfile.name} (${getApiUrl(activeProfile, "convert")})\n`)
 
     try {
+      const healthResult = await health(activeProfile)
+      setTestResult(
+        (prev) =>
+          prev +
+          (healthResult.ok
+            ? `Health: ${healthResult.data.status} (${healthResult.data.latencyMs} ms)\n`
+            : `Health check failed: ${healthResult.error.message}\n`),
+      )
+
       // Test basic connectivity
-      const response = await fetch(`${API_BASE_URL}/api/v1/convert`, {
+      const response = await fetchFromProfile(activeProfile, "convert", {
         method: "OPTIONS",
       })
 
-      setTestResult(`OPTIONS request: ${response.status} ${response.statusText}\n`)
+      setTestResult((prev) => prev + `OPTIONS request: ${response.status} ${response.statusText}\n`)
 
       // Test with a simple GET request
       try {
-        const getResponse = await fetch(`${API_BASE_URL}/api/v1/convert`, {
+        const getResponse = await fetchFromProfile(activeProfile, "convert", {
           method: "GET",
         })
         setTestResult((prev) => prev + `GET request: ${getResponse.status} ${getResponse.statusText}\n`)
@@ -30,9 +41,18 @@ export function ApiTester() {
         setTestResult((prev) => prev + `GET request failed: ${e}\n`)
       }
 
+      // Test the sample endpoint, which exercises the backend round trip without an upload
+      try {
+        const sampleResponse = await fetchFromProfile(activeProfile, "sample")
+        const sampleText = await sampleResponse.text()
+        setTestResult((prev) => prev + `GET sample: ${sampleResponse.status} - ${sampleText.substring(0, 200)}\n`)
+      } catch (e) {
+        setTestResult((prev) => prev + `GET sample failed: ${e}\n`)
+      }
+
       // Test with empty POST
       try {
-        const postResponse = await fetch(`${API_BASE_URL}/api/v1/convert`, {
+        const postResponse = await fetchFromProfile(activeProfile, "convert", {
           method: "POST",
           body: new FormData(),
         })
@@ -42,7 +62,7 @@ export function ApiTester() {
         setTestResult((prev) => prev + `Empty POST failed: ${e}\n`)
       }
     } catch (error) {
-      setTestResult(`Connection failed: ${error}`)
+      setTestResult((prev) => prev + `Connection failed: ${error}`)
     } finally {
       setIsLoading(false)
     }
@@ -0,0 +1,38 @@
+"use client"
+
+import { getPointCount } from "@/lib/point-cloud"
+import type { QueueItem } from "@/hooks/use-conversion-queue"
+
+interface ConversionGalleryProps {
+  items: QueueItem[]
+  selectedId: string | null
+  onSelect: (item: QueueItem) => void
+}
+
+export function ConversionGallery({ items, selectedId, onSelect }: ConversionGalleryProps) {
+  const converted = items.filter((item) => item.status === "done" && item.result)
+  if (converted.length === 0) return null
+
+  return (
+    <div>
+      <p className="text-sm font-medium mb-2">Converted clouds</p>
+      <div className="grid grid-cols-3 sm:grid-cols-4 gap-2">
+        {converted.map((item) => (
+          <button
+            key={item.id}
+            onClick={() => onSelect(item)}
+            className={`text-left rounded-md border overflow-hidden hover:border-blue-400 ${
+              item.id === selectedId ? "ring-2 ring-blue-500" : ""
+            }`}
+          >
+            <img src={item.thumbnailUrl} alt={item.file.name} className="w-full h-20 object-cover bg-gray-100" />
+            <div className="p-1">
+              <p className="text-xs truncate">{item.file.name}</p>
+              <p className="text-[10px] text-gray-500">{getPointCount(item.result!.threejsData).toLocaleString()} points</p>
+            </div>
+          </button>
+        ))}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,84 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { History, Trash2 } from "lucide-react"
+import { formatBytes } from "@/lib/api-proxy"
+import type { HistoryEntry, StorageEstimate } from "@/lib/conversion-history"
+
+interface ConversionHistoryPanelProps {
+  entries: HistoryEntry[]
+  estimate: StorageEstimate | null
+  error: string | null
+  onOpen: (id: string) => void
+  onDelete: (id: string) => void
+}
+
+export function ConversionHistoryPanel({ entries, estimate, error, onOpen, onDelete }: ConversionHistoryPanelProps) {
+  const [thumbnailUrls, setThumbnailUrls] = useState<Record<string, string>>({})
+
+  useEffect(() => {
+    const urls: Record<string, string> = {}
+    for (const entry of entries) {
+      if (entry.thumbnail) urls[entry.id] = URL.createObjectURL(entry.thumbnail)
+    }
+    setThumbnailUrls(urls)
+    return () => Object.values(urls).forEach((url) => URL.revokeObjectURL(url))
+  }, [entries])
+
+  if (entries.length === 0 && !error) return null
+
+  const usedFraction = estimate && estimate.quota > 0 ? estimate.usage / estimate.quota : 0
+
+  return (
+    <details className="border rounded-md p-3 text-sm">
+      <summary className="flex items-center gap-2 cursor-pointer font-medium">
+        <History className="h-4 w-4" />
+        History ({entries.length})
+      </summary>
+
+      {estimate && (
+        <div className="mt-2 text-xs text-gray-500">
+          <p>
+            Storage: {formatBytes(estimate.usage)} of {formatBytes(estimate.quota)} used
+          </p>
+          <div className="h-1 bg-gray-100 rounded overflow-hidden mt-1">
+            <div
+              className={`h-full ${usedFraction > 0.8 ? "bg-red-500" : "bg-blue-500"}`}
+              style={{ width: `${Math.max(1, Math.round(usedFraction * 100))}%` }}
+            />
+          </div>
+        </div>
+      )}
+      {error && <p className="mt-2 text-xs text-red-600">{error}</p>}
+
+      <ul className="mt-2 max-h-64 overflow-y-auto divide-y">
+        {entries.map((entry) => (
+          <li key={entry.id} className="flex items-center gap-2 py-1.5">
+            {thumbnailUrls[entry.id] ? (
+              <img src={thumbnailUrls[entry.id]} alt="" className="w-12 h-12 object-cover rounded bg-gray-100" />
+            ) : (
+              <div className="w-12 h-12 rounded bg-gray-100" />
+            )}
+            <div className="flex-1 min-w-0 text-xs">
+              <p className="font-medium truncate">{entry.name}</p>
+              <p className="text-gray-500">
+                {new Date(entry.createdAt).toLocaleString()} · {entry.points.toLocaleString()} points
+              </p>
+              <p className="text-gray-400 truncate">{entry.backend.name}</p>
+            </div>
+            <button onClick={() => onOpen(entry.id)} className="text-xs text-blue-600 hover:underline">
+              Open
+            </button>
+            <button
+              onClick={() => onDelete(entry.id)}
+              className="text-gray-400 hover:text-red-600"
+              title="Delete from history"
+            >
+              <Trash2 className="h-4 w-4" />
+            </button>
+          </li>
+        ))}
+      </ul>
+    </details>
+  )
+}
@@ -0,0 +1,69 @@
+"use client"
+
+import { X } from "lucide-react"
+import { formatBytes } from "@/lib/api-proxy"
+import type { ConvertProgress } from "@/lib/vis3d-api"
+
+interface ConversionProgressProps {
+  progress: ConvertProgress | null
+  timeoutSeconds: number
+  onCancel: () => void
+}
+
+const describeProgress = (progress: ConvertProgress | null) => {
+  switch (progress?.phase) {
+    case "uploading":
+      return progress.total
+        ? `Uploading ${formatBytes(progress.loaded)} of ${formatBytes(progress.total)}`
+        : `Uploading ${formatBytes(progress.loaded)}`
+    case "processing":
+      return "Upload complete, generating depth map..."
+    case "downloading":
+      return `Downloading point cloud (${formatBytes(progress.loaded)})`
+    case "decoding":
+      return "Decoding point cloud..."
+    case "retrying":
+      return `Attempt ${progress.attempt} of ${progress.attempts} failed (${progress.reason}), retrying in ${Math.ceil(progress.delayMs / 1000)}s`
+    default:
+      return "Starting upload..."
+  }
+}
+
+// Fraction for the bar, or null while the phase has no measurable progress
+const progressFraction = (progress: ConvertProgress | null) => {
+  if ((progress?.phase === "uploading" || progress?.phase === "downloading") && progress.total > 0) {
+    return progress.loaded / progress.total
+  }
+  return null
+}
+
+export function ConversionProgress({ progress, timeoutSeconds, onCancel }: ConversionProgressProps) {
+  const fraction = progressFraction(progress)
+
+  return (
+    <div
+      className={`border rounded-md p-3 space-y-2 ${
+        progress?.phase === "retrying" ? "bg-yellow-50 border-yellow-200" : "bg-blue-50 border-blue-200"
+      }`}
+    >
+      <div className="flex items-center justify-between gap-2">
+        <p className="text-sm text-blue-700 truncate">{describeProgress(progress)}</p>
+        <button
+          onClick={onCancel}
+          className="flex items-center gap-1 text-xs px-2 py-1 rounded bg-white border hover:bg-gray-50"
+        >
+          <X className="h-3 w-3" />
+          Cancel
+        </button>
+      </div>
+      <div className="h-1.5 bg-blue-100 rounded overflow-hidden">
+        {fraction === null ? (
+          <div className="h-full w-1/3 bg-blue-500 animate-pulse" />
+        ) : (
+          <div className="h-full bg-blue-500 transition-all" style={{ width: `${Math.round(fraction * 100)}%` }} />
+        )}
+      </div>
+      <p className="text-xs text-gray-500">Each attempt times out after {timeoutSeconds}s (set per backend profile)</p>
+    </div>
+  )
+}
@@ -0,0 +1,108 @@
+"use client"
+
+import { RotateCcw, Trash2, X } from "lucide-react"
+import { QUEUE_CONCURRENCY_OPTIONS, type QueueItem, type QueueItemStatus } from "@/hooks/use-conversion-queue"
+
+interface ConversionQueuePanelProps {
+  items: QueueItem[]
+  concurrency: number
+  onConcurrencyChange: (concurrency: number) => void
+  onCancel: (id: string) => void
+  onRetry: (id: string) => void
+  onRemove: (id: string) => void
+  onClearFailed: () => void
+}
+
+const STATUS_STYLES: Record<QueueItemStatus, string> = {
+  queued: "bg-gray-100 text-gray-600",
+  uploading: "bg-blue-100 text-blue-700",
+  converting: "bg-indigo-100 text-indigo-700",
+  done: "bg-green-100 text-green-700",
+  failed: "bg-red-100 text-red-700",
+  cancelled: "bg-yellow-100 text-yellow-700",
+}
+
+const itemPercent = (item: QueueItem) => {
+  const progress = item.progress
+  if (progress?.phase === "uploading" && progress.total > 0) return Math.round((progress.loaded / progress.total) * 100)
+  return null
+}
+
+export function ConversionQueuePanel({
+  items,
+  concurrency,
+  onConcurrencyChange,
+  onCancel,
+  onRetry,
+  onRemove,
+  onClearFailed,
+}: ConversionQueuePanelProps) {
+  const doneCount = items.filter((item) => item.status === "done").length
+  const hasFailed = items.some((item) => item.status === "failed" || item.status === "cancelled")
+
+  return (
+    <div className="border rounded-md p-3 space-y-2">
+      <div className="flex items-center justify-between gap-2 text-sm">
+        <p className="font-medium">
+          Batch queue · {doneCount}/{items.length} converted
+        </p>
+        <div className="flex items-center gap-2">
+          <label className="flex items-center gap-1 text-xs text-gray-600">
+            Parallel
+            <select
+              value={concurrency}
+              onChange={(e) => onConcurrencyChange(Number(e.target.value))}
+              className="border rounded px-1 py-0.5"
+            >
+              {QUEUE_CONCURRENCY_OPTIONS.map((option) => (
+                <option key={option} value={option}>
+                  {option}
+                </option>
+              ))}
+            </select>
+          </label>
+          {hasFailed && (
+            <button onClick={onClearFailed} className="text-xs text-blue-600 hover:underline">
+              Clear failed
+            </button>
+          )}
+        </div>
+      </div>
+
+      <ul className="max-h-48 overflow-y-auto divide-y text-xs">
+        {items.map((item) => {
+          const percent = itemPercent(item)
+          return (
+            <li key={item.id} className="flex items-center gap-2 py-1">
+              <span className="flex-1 min-w-0 truncate" title={item.error ?? item.file.name}>
+                {item.file.name}
+                {item.error && <span className="text-red-600"> · {item.error}</span>}
+              </span>
+              <span className={`px-1.5 py-0.5 rounded capitalize ${STATUS_STYLES[item.status]}`}>
+                {item.status}
+                {percent !== null && ` ${percent}%`}
+                {item.progress?.phase === "retrying" && ` (retry ${item.progress.attempt})`}
+              </span>
+              {item.status === "queued" || item.status === "uploading" || item.status === "converting" ? (
+                <button onClick={() => onCancel(item.id)} className="text-gray-400 hover:text-gray-700" title="Cancel">
+                  <X className="h-3.5 w-3.5" />
+                </button>
+              ) : (
+                <>
+                  {(item.status === "failed" || item.status === "cancelled") && (
+                    <button onClick={() => onRetry(item.id)} className="text-gray-400 hover:text-gray-700" title="Retry">
+                      <RotateCcw className="h-3.5 w-3.5" />
+                    </button>
+                  )}
+                  <button onClick={() => onRemove(item.id)} className="text-gray-400 hover:text-red-600" title="Remove">
+                    <Trash2 className="h-3.5 w-3.5" />
+                  </button>
+                </>
+              )}
+            </li>
+          )
+        })}
+      </ul>
+    </div>
+  )
+}
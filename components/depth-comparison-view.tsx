@@ -0,0 +1,146 @@
+"use client"
+
+import type React from "react"
+
+import { useEffect, useRef, useState } from "react"
+import { gridIndexFromUV, gridUVFromIndex, isGridOrdered, type ThreeJSData } from "@/lib/point-cloud"
+import { COLORMAPS, applyColormap, type ColormapName } from "@/lib/colormaps"
+import { decodeBase64Image, toDataUrl } from "@/lib/depth-reprojection"
+
+interface DepthComparisonViewProps {
+  threejsData: ThreeJSData | null
+  originalImageBase64?: string
+  depthImageBase64: string | null
+  // Lays the original and depth images out next to the viewer, otherwise only the viewer is shown
+  showImages: boolean
+  hoveredIndex: number | null
+  onHoverIndex: (index: number | null) => void
+  // The 3D viewer, kept at the same place in the tree whether the images are shown or not so
+  // toggling them doesn't remount it
+  children: React.ReactNode
+}
+
+function HoverMarker({ u, v }: { u: number; v: number }) {
+  return (
+    <div
+      className="absolute w-3 h-3 -ml-1.5 -mt-1.5 rounded-full border-2 border-white bg-red-500 pointer-events-none shadow"
+      style={{ left: `${u * 100}%`, top: `${v * 100}%` }}
+    />
+  )
+}
+
+export function DepthComparisonView({
+  threejsData,
+  originalImageBase64,
+  depthImageBase64,
+  showImages,
+  hoveredIndex,
+  onHoverIndex,
+  children,
+}: DepthComparisonViewProps) {
+  const depthCanvasRef = useRef<HTMLCanvasElement>(null)
+  const [colormap, setColormap] = useState<ColormapName>("turbo")
+  const [depthImage, setDepthImage] = useState<ImageData | null>(null)
+
+  const showPanes = showImages && !!threejsData && !!depthImageBase64
+  const canPick = !!threejsData && isGridOrdered(threejsData)
+  const marker = threejsData && canPick && hoveredIndex !== null ? gridUVFromIndex(threejsData, hoveredIndex) : null
+
+  useEffect(() => {
+    if (!depthImageBase64) {
+      setDepthImage(null)
+      return
+    }
+    let cancelled = false
+    decodeBase64Image(depthImageBase64)
+      .then((image) => {
+        if (!cancelled) setDepthImage(image)
+      })
+      .catch((err) => console.error("Depth decode error:", err))
+    return () => {
+      cancelled = true
+    }
+  }, [depthImageBase64])
+
+  useEffect(() => {
+    const canvas = depthCanvasRef.current
+    if (!canvas || !depthImage) return
+
+    canvas.width = depthImage.width
+    canvas.height = depthImage.height
+    canvas.getContext("2d")?.putImageData(applyColormap(depthImage, colormap), 0, 0)
+    // The canvas is remounted when the images are shown again
+  }, [depthImage, colormap, showPanes])
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLElement>) => {
+    if (!threejsData || !canPick) return
+    const rect = e.currentTarget.getBoundingClientRect()
+    const u = (e.clientX - rect.left) / rect.width
+    const v = (e.clientY - rect.top) / rect.height
+    onHoverIndex(gridIndexFromUV(threejsData, u, v))
+  }
+
+  const handlePointerLeave = () => onHoverIndex(null)
+
+  return (
+    <div className="space-y-2">
+      <div className={showPanes ? "grid grid-cols-1 md:grid-cols-3 gap-2" : undefined}>
+        {showPanes && (
+          <div className="space-y-1">
+            <p className="text-xs font-medium text-gray-600">Original</p>
+            {originalImageBase64 ? (
+              <div className="relative" onPointerMove={handlePointerMove} onPointerLeave={handlePointerLeave}>
+                <img
+                  src={toDataUrl(originalImageBase64)}
+                  alt="Uploaded original"
+                  className="w-full rounded-md select-none"
+                  draggable={false}
+                />
+                {marker && <HoverMarker {...marker} />}
+              </div>
+            ) : (
+              <div className="h-32 bg-[#f1f5f9] rounded-md flex items-center justify-center text-xs text-gray-500">
+                No original image returned
+              </div>
+            )}
+          </div>
+        )}
+
+        {showPanes && (
+          <div className="space-y-1">
+            <div className="flex items-center justify-between">
+              <p className="text-xs font-medium text-gray-600">Depth</p>
+              <select
+                value={colormap}
+                onChange={(e) => setColormap(e.target.value as ColormapName)}
+                className="text-xs border rounded px-1 py-0.5"
+              >
+                {COLORMAPS.map(({ name, label }) => (
+                  <option key={name} value={name}>
+                    {label}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div className="relative" onPointerMove={handlePointerMove} onPointerLeave={handlePointerLeave}>
+              <canvas ref={depthCanvasRef} className="w-full rounded-md bg-[#f1f5f9]" />
+              {marker && <HoverMarker {...marker} />}
+            </div>
+          </div>
+        )}
+
+        <div className="space-y-1">
+          {showPanes && <p className="text-xs font-medium text-gray-600">Point cloud</p>}
+          {children}
+        </div>
+      </div>
+
+      {showPanes && !canPick && (
+        <p className="text-xs text-gray-400">
+          Hover picking is unavailable: the cloud does not match its {threejsData?.metadata?.width}x
+          {threejsData?.metadata?.height} image grid.
+        </p>
+      )}
+    </div>
+  )
+}
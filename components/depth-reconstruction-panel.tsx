@@ -0,0 +1,209 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { RefreshCw } from "lucide-react"
+import { countValidPoints, type ThreeJSData } from "@/lib/point-cloud"
+import {
+  DEFAULT_REPROJECTION_OPTIONS,
+  decodeBase64Image,
+  focalLengthFromFov,
+  reprojectDepthMap,
+  type ReprojectionOptions,
+} from "@/lib/depth-reprojection"
+
+interface DepthReconstructionPanelProps {
+  depthImageBase64: string
+  originalImageBase64?: string
+  onReconstruct: (data: ThreeJSData) => void
+}
+
+interface DecodedImages {
+  depth: ImageData
+  color: ImageData | null
+}
+
+interface SliderProps {
+  label: string
+  value: number
+  min: number
+  max: number
+  step: number
+  onChange: (value: number) => void
+}
+
+function Slider({ label, value, min, max, step, onChange }: SliderProps) {
+  return (
+    <label className="block text-xs text-gray-600">
+      <div className="flex justify-between mb-1">
+        <span>{label}</span>
+        <span className="font-mono">{value}</span>
+      </div>
+      <input
+        type="range"
+        min={min}
+        max={max}
+        step={step}
+        value={value}
+        onChange={(e) => onChange(Number(e.target.value))}
+        className="w-full"
+      />
+    </label>
+  )
+}
+
+export function DepthReconstructionPanel({
+  depthImageBase64,
+  originalImageBase64,
+  onReconstruct,
+}: DepthReconstructionPanelProps) {
+  const [options, setOptions] = useState<ReprojectionOptions>(DEFAULT_REPROJECTION_OPTIONS)
+  const [useFocalLength, setUseFocalLength] = useState(false)
+  const [images, setImages] = useState<DecodedImages | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+
+    const decode = async () => {
+      try {
+        const depth = await decodeBase64Image(depthImageBase64)
+        // Sample the original at depth resolution so pixels line up one-to-one
+        const color = originalImageBase64
+          ? await decodeBase64Image(originalImageBase64, depth.width, depth.height)
+          : null
+        if (!cancelled) {
+          setImages({ depth, color })
+          setError(null)
+        }
+      } catch (err) {
+        console.error("Depth decode error:", err)
+        if (!cancelled) setError(err instanceof Error ? err.message : "Failed to decode depth image")
+      }
+    }
+
+    setImages(null)
+    decode()
+    return () => {
+      cancelled = true
+    }
+  }, [depthImageBase64, originalImageBase64])
+
+  const updateOption = <K extends keyof ReprojectionOptions>(key: K, value: ReprojectionOptions[K]) => {
+    setOptions((prev) => ({ ...prev, [key]: value }))
+  }
+
+  const toggleFocalLength = (enabled: boolean) => {
+    setUseFocalLength(enabled)
+    if (enabled && images && !options.focalLength) {
+      updateOption("focalLength", Math.round(focalLengthFromFov(options.fov, images.depth.width)))
+    }
+  }
+
+  const rebuild = () => {
+    if (!images) return
+    const data = reprojectDepthMap(images.depth, images.color, {
+      ...options,
+      focalLength: useFocalLength ? options.focalLength : undefined,
+    })
+
+    if (countValidPoints(data.vertices) === 0) {
+      setError("No points left after clipping - widen the near/far range")
+      return
+    }
+
+    setError(null)
+    onReconstruct(data)
+  }
+
+  return (
+    <div className="border rounded-md p-3 space-y-3">
+      <div className="flex items-center justify-between">
+        <p className="text-sm font-medium">Local depth reconstruction</p>
+        {images && (
+          <span className="text-xs text-gray-400">
+            {images.depth.width}x{images.depth.height} depth map
+          </span>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        {useFocalLength ? (
+          <Slider
+            label="Focal length (px)"
+            value={options.focalLength ?? 500}
+            min={50}
+            max={3000}
+            step={10}
+            onChange={(value) => updateOption("focalLength", value)}
+          />
+        ) : (
+          <Slider
+            label="Field of view (°)"
+            value={options.fov}
+            min={20}
+            max={120}
+            step={1}
+            onChange={(value) => updateOption("fov", value)}
+          />
+        )}
+        <Slider
+          label="Depth scale"
+          value={options.depthScale}
+          min={0.1}
+          max={5}
+          step={0.1}
+          onChange={(value) => updateOption("depthScale", value)}
+        />
+        <Slider
+          label="Near clip"
+          value={options.near}
+          min={0}
+          max={1}
+          step={0.01}
+          onChange={(value) => updateOption("near", Math.min(value, options.far))}
+        />
+        <Slider
+          label="Far clip"
+          value={options.far}
+          min={0}
+          max={1}
+          step={0.01}
+          onChange={(value) => updateOption("far", Math.max(value, options.near))}
+        />
+        <Slider
+          label="Stride"
+          value={options.stride}
+          min={1}
+          max={8}
+          step={1}
+          onChange={(value) => updateOption("stride", value)}
+        />
+        <div className="flex flex-col justify-end gap-1 text-xs text-gray-600">
+          <label className="flex items-center gap-2">
+            <input type="checkbox" checked={useFocalLength} onChange={(e) => toggleFocalLength(e.target.checked)} />
+            Use focal length instead of FOV
+          </label>
+          <label className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={options.invertDepth}
+              onChange={(e) => updateOption("invertDepth", e.target.checked)}
+            />
+            Brighter pixels are closer
+          </label>
+        </div>
+      </div>
+
+      {error && <p className="text-red-600 text-xs">{error}</p>}
+
+      <button
+        onClick={rebuild}
+        disabled={!images}
+        className="w-full bg-blue-600 text-white py-2 rounded flex items-center justify-center gap-2 text-sm disabled:opacity-50"
+      >
+        <RefreshCw className="h-4 w-4" />
+        {images ? "Rebuild point cloud locally" : "Decoding depth map..."}
+      </button>
+    </div>
+  )
+}
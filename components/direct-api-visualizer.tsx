@@ -2,18 +2,9 @@
 
 import { useState, useEffect } from "react"
 import { Visualizer3D } from "./visualizer-3d"
-
-interface ThreeJSData {
-  vertices: number[]
-  colors: number[]
-  metadata: {
-    version: number
-    type: string
-    points: number
-    width: number
-    height: number
-  }
-}
+import type { ThreeJSData } from "@/lib/point-cloud"
+import { sample } from "@/lib/vis3d-api"
+import { useApiProfiles } from "@/hooks/use-api-profiles"
 
 // Sample data for testing when API is unavailable
 const SAMPLE_DATA: ThreeJSData = {
@@ -88,46 +79,36 @@ const SAMPLE_DATA: ThreeJSData = {
   },
 }
 
-// Make sure to include https:// in the URL
-const API_BASE_URL = "https://vis3d-production.up.railway.app"
-
 export function DirectApiVisualizer() {
+  const { activeProfile } = useApiProfiles()
   const [isLoading, setIsLoading] = useState(true)
   const [threejsData, setThreejsData] = useState<ThreeJSData | null>(null)
   const [error, setError] = useState<string | null>(null)
 
   useEffect(() => {
-    // Try to fetch a sample 3D model directly from the API
-    const fetchSampleData = async () => {
-      try {
-        // First try to use the sample data to ensure visualization works
-        setThreejsData(SAMPLE_DATA)
-        setIsLoading(false)
+    // Show the built-in sample right away, then swap in the backend's sample when it arrives
+    setThreejsData(SAMPLE_DATA)
+    setIsLoading(false)
 
-        // Then try to fetch from API in the background
-        try {
-          const response = await fetch(`${API_BASE_URL}/api/v1/sample`, {
-            method: "GET",
-          })
+    // The active profile can change while a request is in flight, only the latest one applies
+    let cancelled = false
+    const fetchSampleData = async () => {
+      const result = await sample(activeProfile)
+      if (cancelled) return
 
-          if (response.ok) {
-            const data = await response.json()
-            if (data.threejs_data) {
-              setThreejsData(data.threejs_data)
-            }
-          }
-        } catch (apiError) {
-          // Silently fail - we already have sample data showing
-          console.log("Could not fetch from API, using sample data instead")
-        }
-      } catch (err) {
-        setError("Failed to initialize 3D viewer")
-        setIsLoading(false)
+      if (result.ok) {
+        setThreejsData(result.data)
+      } else {
+        // Silently fail - we already have sample data showing
+        console.log("Could not fetch from API, using sample data instead:", result.error.message)
       }
     }
 
     fetchSampleData()
-  }, [])
+    return () => {
+      cancelled = true
+    }
+  }, [activeProfile])
 
   return (
     <div className="space-y-4">
@@ -1,19 +1,47 @@
 "use client"
 
 import { useEffect, useRef, useState } from "react"
+import { Camera } from "lucide-react"
 import { Card, CardContent } from "@/components/ui/card"
+import { CAPTURE_COUNTDOWN_OPTIONS, captureVideoFrame, dispatchCapturedFrame } from "@/lib/camera-capture"
+import { updateSystemStatus } from "@/lib/system-status"
+import { DETECTOR_OPTIONS, getDefaultDetectorId, getDetectorOption } from "@/lib/vision/detectors"
+import { createFrameFactory } from "@/lib/vision/frame"
+import { DEFAULT_CASCADE_OPTIONS, SCALE_FACTOR_OPTIONS, type CascadeOptions } from "@/lib/vision/cascade-face-detector"
+import { createTracker, type TrackInfo } from "@/lib/vision/tracker"
+import {
+  POSE_LABELS,
+  createGestureRecognizer,
+  dispatchHandGestures,
+  type HandGestureFrame,
+  type SwipeDirection,
+} from "@/lib/vision/gestures"
+import {
+  NO_DETECTIONS,
+  type Detections,
+  type Detector,
+  type DetectorId,
+  type FaceDetection,
+  type HandDetection,
+} from "@/lib/vision/types"
 
 interface DetectionStats {
   faces: number
   hands: number
+  // Overlay frames per second
   fps: number
+  // Completed detections per second, lower than fps when the detector can't keep up
+  detectionRate: number
+  // Live tracks, refreshed with the fps counter
+  tracks: TrackInfo[]
 }
 
-// Helper function to emit system status updates
-const updateSystemStatus = (updates: any) => {
-  const event = new CustomEvent("systemStatusUpdate", { detail: updates })
-  window.dispatchEvent(event)
-}
+const EMPTY_STATS: DetectionStats = { faces: 0, hands: 0, fps: 0, detectionRate: 0, tracks: [] }
+
+// How long a swipe stays on the overlay after it is recognised
+const SWIPE_LABEL_MS = 800
+
+const trackLabel = (label: string, trackId?: number) => (trackId === undefined ? label : `${label} #${trackId}`)
 
 export function FaceHandDetector() {
   const videoRef = useRef<HTMLVideoElement>(null)
@@ -21,16 +49,35 @@ export function FaceHandDetector() {
   const [isActive, setIsActive] = useState(false)
   const [isDetecting, setIsDetecting] = useState(true)
   const [status, setStatus] = useState('Click "Activate" to begin')
-  const [stats, setStats] = useState<DetectionStats>({ faces: 0, hands: 0, fps: 0 })
+  const [stats, setStats] = useState<DetectionStats>(EMPTY_STATS)
   const [isLoading, setIsLoading] = useState(false)
+  const [captureDelay, setCaptureDelay] = useState<number>(3)
+  // Seconds left before the capture, null when no countdown is running
+  const [countdown, setCountdown] = useState<number | null>(null)
+  // Null until the browser's capabilities are known
+  const [detectorId, setDetectorId] = useState<DetectorId | null>(null)
+  const [supportedDetectors, setSupportedDetectors] = useState<DetectorId[]>(["heuristic"])
+  const [isDetectorLoading, setIsDetectorLoading] = useState(false)
+  const [cascadeOptions, setCascadeOptions] = useState<CascadeOptions>(DEFAULT_CASCADE_OPTIONS)
 
   const animationRef = useRef<number>()
   const frameCountRef = useRef(0)
   const fpsUpdateTimeRef = useRef(0)
   const timeRef = useRef(0)
-  const faceDetectorRef = useRef<any>(null)
-  const handDetectorRef = useRef<any>(null)
-  const previousFrameRef = useRef<ImageData | null>(null)
+  const detectorRef = useRef<Detector | null>(null)
+  const createFrameRef = useRef<ReturnType<typeof createFrameFactory> | null>(null)
+  // Tracked (smoothed, id-tagged) detections the overlay draws
+  const latestDetectionsRef = useRef<Detections>(NO_DETECTIONS)
+  const trackerRef = useRef(createTracker())
+  const gestureRecognizerRef = useRef(createGestureRecognizer())
+  const latestGesturesRef = useRef<HandGestureFrame>({ hands: [], timestamp: 0 })
+  // Last swipe per hand track, kept for a moment so it is readable on the overlay
+  const swipeLabelsRef = useRef(new Map<number, { direction: SwipeDirection; until: number }>())
+  const detectionInFlightRef = useRef(false)
+  const detectionCountRef = useRef(0)
+  const isActiveRef = useRef(false)
+  const isDetectingRef = useRef(true)
+  const countdownTimerRef = useRef<ReturnType<typeof setInterval> | null>(null)
 
   // Update system status when detection state changes
   useEffect(() => {
@@ -42,11 +89,18 @@ export function FaceHandDetector() {
   }, [isActive, isDetecting])
 
   useEffect(() => {
-    loadDetectionModels()
+    // Support checks touch browser globals, so they run after hydration
+    setSupportedDetectors(DETECTOR_OPTIONS.filter((option) => option.isSupported()).map((option) => option.id))
+    setDetectorId(getDefaultDetectorId())
+
     return () => {
+      isActiveRef.current = false
       if (animationRef.current) {
         cancelAnimationFrame(animationRef.current)
       }
+      if (countdownTimerRef.current) {
+        clearInterval(countdownTimerRef.current)
+      }
       updateSystemStatus({
         faceDetection: false,
         handDetection: false,
@@ -55,31 +109,45 @@ export function FaceHandDetector() {
     }
   }, [])
 
-  const loadDetectionModels = async () => {
-    setIsLoading(true)
-    setStatus("Loading detection models...")
+  // Loads the selected detector; the detection loop keeps running and picks it up once it is ready
+  useEffect(() => {
+    if (!detectorId) return
+
+    const option = getDetectorOption(detectorId)
+    const detector = option.create({ cascade: cascadeOptions })
+    let cancelled = false
+    setIsDetectorLoading(true)
+    setStatus(`Loading ${option.label} detector...`)
+
+    detector
+      .init()
+      .then(() => {
+        if (cancelled) {
+          detector.dispose()
+          return
+        }
+        resetTracking()
+        detectorRef.current = detector
+        setStatus(isActiveRef.current ? "Camera active - Detection running" : "Models loaded - Click Activate to start")
+      })
+      .catch((error) => {
+        console.error("Model loading error:", error)
+        // A failed init can leave a worker or a half-loaded model behind
+        detector.dispose()
+        if (!cancelled) setStatus(`${option.label} detector unavailable, pick another one`)
+      })
+      .finally(() => {
+        if (!cancelled) setIsDetectorLoading(false)
+      })
 
-    try {
-      // Check if browser supports FaceDetector API
-      if ("FaceDetector" in window) {
-        // @ts-ignore
-        faceDetectorRef.current = new window.FaceDetector({
-          maxDetectedFaces: 5,
-          fastMode: false,
-        })
-        setStatus("Browser face detection loaded")
-      } else {
-        setStatus("Using computer vision algorithms")
+    return () => {
+      cancelled = true
+      if (detectorRef.current === detector) {
+        detectorRef.current = null
+        detector.dispose()
       }
-
-      setStatus("Models loaded - Click Activate to start")
-      setIsLoading(false)
-    } catch (error) {
-      setStatus("Using fallback detection methods")
-      setIsLoading(false)
-      console.error("Model loading error:", error)
     }
-  }
+  }, [detectorId, cascadeOptions])
 
   const startCamera = async () => {
     try {
@@ -94,6 +162,7 @@ export function FaceHandDetector() {
         },
       })
 
+      isActiveRef.current = true
       if (videoRef.current) {
         videoRef.current.srcObject = stream
 
@@ -116,7 +185,20 @@ export function FaceHandDetector() {
     }
   }
 
+  // Forgets tracks and gestures, telling gesture subscribers the hands are gone
+  const resetTracking = () => {
+    latestDetectionsRef.current = NO_DETECTIONS
+    trackerRef.current.reset()
+    gestureRecognizerRef.current.reset()
+    swipeLabelsRef.current.clear()
+    if (latestGesturesRef.current.hands.length > 0) {
+      latestGesturesRef.current = { hands: [], timestamp: performance.now() }
+      dispatchHandGestures(latestGesturesRef.current)
+    }
+  }
+
   const stopCamera = () => {
+    isActiveRef.current = false
     if (videoRef.current?.srcObject) {
       const tracks = (videoRef.current.srcObject as MediaStream).getTracks()
       tracks.forEach((track) => track.stop())
@@ -126,451 +208,102 @@ export function FaceHandDetector() {
     if (animationRef.current) {
       cancelAnimationFrame(animationRef.current)
     }
+    cancelCountdown()
 
     setIsActive(false)
     setStatus("Camera stopped")
     clearCanvas()
-    setStats({ faces: 0, hands: 0, fps: 0 })
+    resetTracking()
+    setStats(EMPTY_STATS)
   }
 
   const startDetection = () => {
-    const detectFrame = async () => {
-      if (isDetecting && videoRef.current && canvasRef.current) {
-        await performRealTimeDetection()
-        updateFPS()
-      }
+    // Reads refs rather than state: this closure outlives the render that started it
+    const renderFrame = () => {
+      if (!isActiveRef.current) return
 
-      if (isActive) {
-        animationRef.current = requestAnimationFrame(detectFrame)
+      if (isDetectingRef.current) {
+        requestDetection()
+        drawOverlay()
       }
+      updateFPS()
+
+      animationRef.current = requestAnimationFrame(renderFrame)
     }
 
-    detectFrame()
+    renderFrame()
   }
 
-  const performRealTimeDetection = async () => {
-    if (!canvasRef.current || !videoRef.current) return
-
+  // Starts a detection on the current video frame unless one is still running, in which case the
+  // frame is dropped. The overlay keeps rendering the latest results at display rate meanwhile.
+  const requestDetection = () => {
     const canvas = canvasRef.current
     const video = videoRef.current
-    const ctx = canvas.getContext("2d")
-    if (!ctx) return
-
-    // Clear canvas
-    ctx.clearRect(0, 0, canvas.width, canvas.height)
-
-    timeRef.current += 0.05
-
-    let faceCount = 0
-    let handCount = 0
-
-    try {
-      // Real face detection
-      const detectedFaces = await detectRealFaces(video)
-      faceCount = detectedFaces.length
+    const detector = detectorRef.current
+    if (!canvas || !video || !detector || detectionInFlightRef.current) return
+    if (video.readyState < HTMLMediaElement.HAVE_CURRENT_DATA) return
+
+    detectionInFlightRef.current = true
+    createFrameRef.current ??= createFrameFactory()
+    const frame = createFrameRef.current(video, canvas.width, canvas.height, performance.now())
+
+    detector
+      .detect(frame)
+      .then((detections) => {
+        // Results from a detector that was switched out meanwhile are discarded
+        if (detectorRef.current !== detector || !isDetectingRef.current) return
+        const tracked = trackerRef.current.update(detections, frame.timestamp)
+        latestDetectionsRef.current = tracked
+        detectionCountRef.current++
+
+        const hadHands = latestGesturesRef.current.hands.length > 0
+        const gestures = gestureRecognizerRef.current.update(tracked.hands, frame.width, frame.height, frame.timestamp)
+        latestGesturesRef.current = gestures
+        for (const [trackId, label] of swipeLabelsRef.current) {
+          if (label.until < frame.timestamp) swipeLabelsRef.current.delete(trackId)
+        }
+        for (const { trackId, swipe } of gestures.hands) {
+          if (swipe) swipeLabelsRef.current.set(trackId, { direction: swipe, until: frame.timestamp + SWIPE_LABEL_MS })
+        }
+        if (hadHands || gestures.hands.length > 0) dispatchHandGestures(gestures)
 
-      detectedFaces.forEach((face) => {
-        drawInteractiveFaceMesh(ctx, face)
+        setStats((prev) =>
+          prev.faces === tracked.faces.length && prev.hands === tracked.hands.length
+            ? prev
+            : { ...prev, faces: tracked.faces.length, hands: tracked.hands.length },
+        )
       })
-
-      // Real hand detection
-      const detectedHands = await detectRealHands(ctx, video)
-      handCount = detectedHands.length
-
-      detectedHands.forEach((hand) => {
-        drawInteractiveHandVertices(ctx, hand)
+      .catch((error) => {
+        console.error("Detection error:", error)
+      })
+      .finally(() => {
+        detectionInFlightRef.current = false
       })
-    } catch (error) {
-      console.error("Detection error:", error)
-    }
-
-    setStats((prev) => ({ ...prev, faces: faceCount, hands: handCount }))
-  }
-
-  const detectRealFaces = async (video: HTMLVideoElement) => {
-    try {
-      // Try browser FaceDetector API first
-      if (faceDetectorRef.current && video.readyState === 4) {
-        const detectedFaces = await faceDetectorRef.current.detect(video)
-        return detectedFaces.map((face: any) => ({
-          x: face.boundingBox.x,
-          y: face.boundingBox.y,
-          width: face.boundingBox.width,
-          height: face.boundingBox.height,
-        }))
-      }
-    } catch (e) {
-      // Fallback to computer vision detection
-    }
-
-    // Advanced computer vision face detection fallback
-    return detectFallbackFaces(video)
-  }
-
-  const detectFallbackFaces = (video: HTMLVideoElement) => {
-    const canvas = canvasRef.current
-    if (!canvas) return []
-
-    const tempCanvas = document.createElement("canvas")
-    const tempCtx = tempCanvas.getContext("2d")
-    if (!tempCtx) return []
-
-    tempCanvas.width = canvas.width / 2
-    tempCanvas.height = canvas.height / 2
-
-    tempCtx.drawImage(video, 0, 0, tempCanvas.width, tempCanvas.height)
-    const imageData = tempCtx.getImageData(0, 0, tempCanvas.width, tempCanvas.height)
-    const data = imageData.data
-
-    // Convert to grayscale
-    const grayData = new Uint8Array(tempCanvas.width * tempCanvas.height)
-    for (let i = 0; i < data.length; i += 4) {
-      const gray = Math.round(0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2])
-      grayData[i / 4] = gray
-    }
-
-    // Haar-like feature detection
-    const faces = []
-    const minFaceSize = 60
-    const maxFaceSize = Math.min(tempCanvas.width, tempCanvas.height) / 1.5
-    const stepSize = 12
-
-    for (let size = minFaceSize; size <= maxFaceSize; size += 25) {
-      for (let y = 0; y <= tempCanvas.height - size; y += stepSize) {
-        for (let x = 0; x <= tempCanvas.width - size; x += stepSize) {
-          if (isFaceRegion(grayData, tempCanvas.width, tempCanvas.height, x, y, size)) {
-            faces.push({
-              x: x * 2,
-              y: y * 2,
-              width: size * 2,
-              height: size * 2,
-            })
-          }
-        }
-      }
-    }
-
-    return removeOverlappingFaces(faces)
-  }
-
-  const detectRealHands = async (ctx: CanvasRenderingContext2D, video: HTMLVideoElement) => {
-    // Use computer vision-based hand detection
-    return detectFallbackHands(ctx, video)
   }
 
-  const detectFallbackHands = (ctx: CanvasRenderingContext2D, video: HTMLVideoElement) => {
+  const drawOverlay = () => {
     const canvas = canvasRef.current
-    if (!canvas) return []
-
-    const tempCanvas = document.createElement("canvas")
-    const tempCtx = tempCanvas.getContext("2d")
-    if (!tempCtx) return []
-
-    tempCanvas.width = canvas.width / 2
-    tempCanvas.height = canvas.height / 2
-
-    tempCtx.drawImage(video, 0, 0, tempCanvas.width, tempCanvas.height)
-    const imageData = tempCtx.getImageData(0, 0, tempCanvas.width, tempCanvas.height)
-    const data = imageData.data
-
-    // Motion detection for hands
-    let motionRegions = []
-    if (previousFrameRef.current) {
-      motionRegions = detectMotion(data, previousFrameRef.current.data, tempCanvas.width, tempCanvas.height)
-    }
-
-    previousFrameRef.current = imageData
-
-    // Skin color detection
-    const skinRegions = detectSkinRegions(data, tempCanvas.width, tempCanvas.height)
-
-    // Combine motion and skin detection
-    const handCandidates = combineMotionAndSkin(motionRegions, skinRegions)
-
-    // Filter and scale back
-    return handCandidates
-      .filter((region) => isHandLikeShape(region))
-      .map((region) => ({
-        x: region.x * 2,
-        y: region.y * 2,
-        width: region.width * 2,
-        height: region.height * 2,
-      }))
-  }
-
-  const isFaceRegion = (
-    grayData: Uint8Array,
-    width: number,
-    height: number,
-    x: number,
-    y: number,
-    size: number,
-  ): boolean => {
-    // Enhanced Haar-like features for better face detection
-    const eyeRegionY = Math.floor(y + size * 0.25)
-    const eyeRegionHeight = Math.floor(size * 0.25)
-    const mouthRegionY = Math.floor(y + size * 0.65)
-    const mouthRegionHeight = Math.floor(size * 0.2)
-
-    const leftEyeX = Math.floor(x + size * 0.2)
-    const rightEyeX = Math.floor(x + size * 0.65)
-    const eyeWidth = Math.floor(size * 0.2)
-
-    let leftEyeSum = 0
-    let rightEyeSum = 0
-    let foreheadSum = 0
-    let mouthSum = 0
-    let pixelCount = 0
-
-    // Sample eye regions
-    for (let dy = 0; dy < eyeRegionHeight; dy++) {
-      for (let dx = 0; dx < eyeWidth; dx++) {
-        const leftIdx = (eyeRegionY + dy) * width + (leftEyeX + dx)
-        const rightIdx = (eyeRegionY + dy) * width + (rightEyeX + dx)
-
-        if (leftIdx < grayData.length && rightIdx < grayData.length) {
-          leftEyeSum += grayData[leftIdx]
-          rightEyeSum += grayData[rightIdx]
-          pixelCount++
-        }
-      }
-    }
-
-    // Sample forehead
-    const foreheadY = Math.floor(y + size * 0.05)
-    for (let dy = 0; dy < eyeRegionHeight; dy++) {
-      for (let dx = 0; dx < size * 0.6; dx++) {
-        const idx = (foreheadY + dy) * width + (x + size * 0.2 + dx)
-        if (idx < grayData.length) {
-          foreheadSum += grayData[idx]
-        }
-      }
-    }
-
-    // Sample mouth region
-    for (let dy = 0; dy < mouthRegionHeight; dy++) {
-      for (let dx = 0; dx < size * 0.4; dx++) {
-        const idx = (mouthRegionY + dy) * width + (x + size * 0.3 + dx)
-        if (idx < grayData.length) {
-          mouthSum += grayData[idx]
-        }
-      }
-    }
-
-    if (pixelCount === 0) return false
-
-    const avgLeftEye = leftEyeSum / pixelCount
-    const avgRightEye = rightEyeSum / pixelCount
-    const avgForehead = foreheadSum / (eyeRegionHeight * size * 0.6)
-    const avgMouth = mouthSum / (mouthRegionHeight * size * 0.4)
-
-    // Enhanced face detection criteria
-    const eyesAreDark = avgLeftEye < 110 && avgRightEye < 110
-    const foreheadIsBright = avgForehead > avgLeftEye + 15 && avgForehead > avgRightEye + 15
-    const symmetry = Math.abs(avgLeftEye - avgRightEye) < 25
-    const contrastCheck = avgForehead - Math.min(avgLeftEye, avgRightEye) > 20
-
-    return eyesAreDark && foreheadIsBright && symmetry && contrastCheck
-  }
-
-  const removeOverlappingFaces = (faces: Array<{ x: number; y: number; width: number; height: number }>) => {
-    const filtered = []
-    faces.sort((a, b) => b.width * b.height - a.width * a.height)
-
-    for (let i = 0; i < faces.length; i++) {
-      const face = faces[i]
-      let isOverlapping = false
-
-      for (let j = 0; j < filtered.length; j++) {
-        const other = filtered[j]
-        const overlap = calculateOverlap(face, other)
-        if (overlap > 0.4) {
-          isOverlapping = true
-          break
-        }
-      }
-
-      if (!isOverlapping) {
-        filtered.push(face)
-      }
-    }
-
-    return filtered.slice(0, 3) // Limit to 3 faces max
-  }
-
-  const calculateOverlap = (
-    rect1: { x: number; y: number; width: number; height: number },
-    rect2: { x: number; y: number; width: number; height: number },
-  ) => {
-    const x1 = Math.max(rect1.x, rect2.x)
-    const y1 = Math.max(rect1.y, rect2.y)
-    const x2 = Math.min(rect1.x + rect1.width, rect2.x + rect2.width)
-    const y2 = Math.min(rect1.y + rect1.height, rect2.y + rect2.height)
-
-    if (x2 <= x1 || y2 <= y1) return 0
-
-    const intersectionArea = (x2 - x1) * (y2 - y1)
-    const rect1Area = rect1.width * rect1.height
-    const rect2Area = rect2.width * rect2.height
-    const unionArea = rect1Area + rect2Area - intersectionArea
-
-    return intersectionArea / unionArea
-  }
-
-  const detectMotion = (
-    currentData: Uint8ClampedArray,
-    previousData: Uint8ClampedArray,
-    width: number,
-    height: number,
-  ) => {
-    const motionRegions = []
-    const threshold = 25
-    const blockSize = 16
-
-    for (let y = 0; y < height - blockSize; y += blockSize) {
-      for (let x = 0; x < width - blockSize; x += blockSize) {
-        let motionSum = 0
-        let pixelCount = 0
-
-        for (let dy = 0; dy < blockSize; dy++) {
-          for (let dx = 0; dx < blockSize; dx++) {
-            const idx = ((y + dy) * width + (x + dx)) * 4
-            if (idx < currentData.length && idx < previousData.length) {
-              const currentGray = (currentData[idx] + currentData[idx + 1] + currentData[idx + 2]) / 3
-              const previousGray = (previousData[idx] + previousData[idx + 1] + previousData[idx + 2]) / 3
-              motionSum += Math.abs(currentGray - previousGray)
-              pixelCount++
-            }
-          }
-        }
-
-        if (pixelCount > 0 && motionSum / pixelCount > threshold) {
-          motionRegions.push({ x, y, width: blockSize, height: blockSize })
-        }
-      }
-    }
-
-    return motionRegions
-  }
-
-  const detectSkinRegions = (data: Uint8ClampedArray, width: number, height: number) => {
-    const skinRegions = []
-    const blockSize = 12
-
-    for (let y = 0; y < height - blockSize; y += blockSize) {
-      for (let x = 0; x < width - blockSize; x += blockSize) {
-        let skinPixels = 0
-        let totalPixels = 0
-
-        for (let dy = 0; dy < blockSize; dy++) {
-          for (let dx = 0; dx < blockSize; dx++) {
-            const idx = ((y + dy) * width + (x + dx)) * 4
-            if (idx < data.length) {
-              const r = data[idx]
-              const g = data[idx + 1]
-              const b = data[idx + 2]
-
-              if (isAdvancedSkinColor(r, g, b)) {
-                skinPixels++
-              }
-              totalPixels++
-            }
-          }
-        }
-
-        if (totalPixels > 0 && skinPixels / totalPixels > 0.65) {
-          skinRegions.push({ x, y, width: blockSize, height: blockSize })
-        }
-      }
-    }
-
-    return skinRegions
-  }
-
-  const isAdvancedSkinColor = (r: number, g: number, b: number): boolean => {
-    // Enhanced skin color detection
-    const yuv = rgbToYuv(r, g, b)
-    const hsv = rgbToHsv(r, g, b)
-
-    const yuvSkin = yuv.u >= -20 && yuv.u <= 30 && yuv.v >= -15 && yuv.v <= 25
-    const hsvSkin = hsv.h >= 0 && hsv.h <= 60 && hsv.s >= 0.2 && hsv.s <= 0.8
-    const rgbSkin =
-      r > 85 && g > 35 && b > 15 && Math.max(r, g, b) - Math.min(r, g, b) > 12 && Math.abs(r - g) > 12 && r > g && r > b
-
-    return yuvSkin || hsvSkin || rgbSkin
-  }
-
-  const rgbToYuv = (r: number, g: number, b: number) => {
-    const y = 0.299 * r + 0.587 * g + 0.114 * b
-    const u = -0.169 * r - 0.331 * g + 0.5 * b
-    const v = 0.5 * r - 0.419 * g - 0.081 * b
-    return { y, u, v }
-  }
-
-  const rgbToHsv = (r: number, g: number, b: number) => {
-    r /= 255
-    g /= 255
-    b /= 255
-
-    const max = Math.max(r, g, b)
-    const min = Math.min(r, g, b)
-    const diff = max - min
+    const ctx = canvas?.getContext("2d")
+    if (!canvas || !ctx) return
 
-    let h = 0
-    if (diff !== 0) {
-      if (max === r) h = ((g - b) / diff) % 6
-      else if (max === g) h = (b - r) / diff + 2
-      else h = (r - g) / diff + 4
-    }
-    h = Math.round(h * 60)
-    if (h < 0) h += 360
-
-    const s = max === 0 ? 0 : diff / max
-    const v = max
-
-    return { h, s, v }
-  }
-
-  const combineMotionAndSkin = (motionRegions: any[], skinRegions: any[]) => {
-    const combined = []
-
-    for (const motion of motionRegions) {
-      for (const skin of skinRegions) {
-        const overlap = calculateOverlap(motion, skin)
-        if (overlap > 0.25) {
-          const minX = Math.min(motion.x, skin.x)
-          const minY = Math.min(motion.y, skin.y)
-          const maxX = Math.max(motion.x + motion.width, skin.x + skin.width)
-          const maxY = Math.max(motion.y + motion.height, skin.y + skin.height)
-
-          combined.push({
-            x: minX,
-            y: minY,
-            width: maxX - minX,
-            height: maxY - minY,
-          })
-        }
-      }
-    }
-
-    return combined
-  }
+    timeRef.current += 0.05
+    ctx.clearRect(0, 0, canvas.width, canvas.height)
 
-  const isHandLikeShape = (region: { x: number; y: number; width: number; height: number }) => {
-    const aspectRatio = region.width / region.height
-    const area = region.width * region.height
-    return aspectRatio > 0.4 && aspectRatio < 2.5 && area > 300 && area < 8000
+    const { faces, hands } = latestDetectionsRef.current
+    faces.forEach((face) => {
+      drawInteractiveFaceMesh(ctx, face)
+    })
+    hands.forEach((hand) => {
+      drawInteractiveHandVertices(ctx, hand)
+    })
   }
 
-  const drawInteractiveFaceMesh = (
-    ctx: CanvasRenderingContext2D,
-    face: { x: number; y: number; width: number; height: number; mesh?: any[] },
-  ) => {
-    const { x, y, width, height, mesh } = face
+  const drawInteractiveFaceMesh = (ctx: CanvasRenderingContext2D, face: FaceDetection) => {
+    const { x, y, width, height, mesh, trackId } = face
     const time = timeRef.current
 
     // Draw basic face rectangle if no mesh is available
-    if (!mesh || !Array.isArray(mesh)) {
+    if (!mesh) {
       // Fall back to basic face outline
       ctx.strokeStyle = `rgba(59, 130, 246, 0.9)`
       ctx.fillStyle = `rgba(59, 130, 246, 0.15)`
@@ -581,56 +314,67 @@ export function FaceHandDetector() {
       // Face label
       ctx.fillStyle = "#3b82f6"
       ctx.font = "bold 14px Arial"
-      ctx.fillText("FACE DETECTED", x, y - 8)
+      ctx.fillText(trackLabel("FACE", trackId), x, y - 8)
       return
     }
 
     // Draw advanced face mesh with actual keypoints
     // Draw connections between face keypoints to create a mesh
+    // Eyes and lips are closed loops, the jaw, eyebrows and nose are open lines
     const connections = [
       // Jaw line
-      [234, 93, 132, 58, 172, 136, 150, 149, 176, 148, 152, 377, 400, 378, 379, 365, 397, 288],
+      {
+        closed: false,
+        indices: [234, 93, 132, 58, 172, 136, 150, 149, 176, 148, 152, 377, 400, 378, 379, 365, 397, 288],
+      },
       // Left eye
-      [33, 7, 163, 144, 145, 153, 154, 155, 133, 173, 157, 158, 159, 160, 161, 246],
+      { closed: true, indices: [33, 7, 163, 144, 145, 153, 154, 155, 133, 173, 157, 158, 159, 160, 161, 246] },
       // Right eye
-      [362, 382, 381, 380, 374, 373, 390, 249, 263, 466, 388, 387, 386, 385, 384, 398],
+      { closed: true, indices: [362, 382, 381, 380, 374, 373, 390, 249, 263, 466, 388, 387, 386, 385, 384, 398] },
       // Lips outer
-      [61, 185, 40, 39, 37, 0, 267, 269, 270, 409, 291, 375, 321, 405, 314, 17, 84, 181],
+      { closed: true, indices: [61, 185, 40, 39, 37, 0, 267, 269, 270, 409, 291, 375, 321, 405, 314, 17, 84, 181] },
       // Lips inner
-      [78, 95, 88, 178, 87, 14, 317, 402, 318, 324, 308, 191, 80, 81, 82, 13],
+      { closed: true, indices: [78, 95, 88, 178, 87, 14, 317, 402, 318, 324, 308, 191, 80, 81, 82, 13] },
       // Left eyebrow
-      [276, 283, 282, 295, 300, 293, 334],
+      { closed: false, indices: [276, 283, 282, 295, 300, 293, 334] },
       // Right eyebrow
-      [46, 53, 52, 65, 55, 70, 63],
+      { closed: false, indices: [46, 53, 52, 65, 55, 70, 63] },
       // Nose
-      [168, 6, 197, 195, 5, 4, 45, 220, 115, 49, 131, 134, 51, 5, 281, 248, 114, 188, 217, 122],
+      {
+        closed: false,
+        indices: [168, 6, 197, 195, 5, 4, 45, 220, 115, 49, 131, 134, 51, 5, 281, 248, 114, 188, 217, 122],
+      },
     ]
 
+    // Every mesh point as a faint dot
+    ctx.fillStyle = "rgba(59, 130, 246, 0.35)"
+    for (const point of mesh) {
+      ctx.fillRect(point.x - 0.75, point.y - 0.75, 1.5, 1.5)
+    }
+
     // Draw the connections to create a face mesh
     ctx.strokeStyle = `rgba(59, 130, 246, 0.5)`
     ctx.lineWidth = 1
 
     // Draw the mesh connections
-    for (const connectionGroup of connections) {
-      if (connectionGroup.every((idx) => mesh[idx])) {
+    for (const { closed, indices } of connections) {
+      if (indices.every((idx) => mesh[idx])) {
         ctx.beginPath()
-        const startPoint = mesh[connectionGroup[0]]
+        const startPoint = mesh[indices[0]]
         ctx.moveTo(startPoint.x, startPoint.y)
 
-        for (let i = 1; i < connectionGroup.length; i++) {
-          const point = mesh[connectionGroup[i]]
+        for (let i = 1; i < indices.length; i++) {
+          const point = mesh[indices[i]]
           ctx.lineTo(point.x, point.y)
         }
 
-        // Close the loop if it's a closed shape like eyes or lips
-        const firstPoint = mesh[connectionGroup[0]]
-        ctx.lineTo(firstPoint.x, firstPoint.y)
+        if (closed) ctx.closePath()
         ctx.stroke()
       }
     }
 
     // Draw key feature points with pulsing effect
-    const keyPoints = [33, 263, 61, 291, 199] // eyes, mouth corners, nose tip
+    const keyPoints = [33, 263, 61, 291, 1] // eyes, mouth corners, nose tip
     keyPoints.forEach((idx) => {
       if (mesh[idx]) {
         const point = mesh[idx]
@@ -646,31 +390,25 @@ export function FaceHandDetector() {
     // Face label
     ctx.fillStyle = "#3b82f6"
     ctx.font = "bold 14px Arial"
-    ctx.fillText("FACE MESH ACTIVE", x, y - 8)
+    ctx.fillText(trackLabel("FACE MESH", trackId), x, y - 8)
   }
 
-  const drawInteractiveHandVertices = (
-    ctx: CanvasRenderingContext2D,
-    hand: { x: number; y: number; width: number; height: number; landmarks?: any[]; handedness?: string },
-  ) => {
-    const { x, y, width, height, landmarks, handedness } = hand
+  const drawInteractiveHandVertices = (ctx: CanvasRenderingContext2D, hand: HandDetection) => {
+    const { x, y, width, height, landmarks, handedness, trackId } = hand
     const time = timeRef.current
 
-    // If no landmarks are provided, fall back to generic hand outline
-    if (!landmarks || !Array.isArray(landmarks)) {
+    // Detectors without landmarks only know where the hand is
+    if (!landmarks) {
       // Draw hand outline
       ctx.strokeStyle = `rgba(15, 23, 42, 0.8)`
       ctx.lineWidth = 2
       ctx.strokeRect(x, y, width, height)
 
-      // Generate basic hand landmarks
-      const generatedLandmarks = generateBasicHandLandmarks(x, y, width, height)
-      drawHandSkeleton(ctx, generatedLandmarks)
-
       // Hand label
       ctx.fillStyle = "#0f172a"
       ctx.font = "bold 12px Arial"
-      ctx.fillText("HAND DETECTED", x, y - 8)
+      ctx.fillText(trackLabel("HAND", trackId), x, y - 8)
+      drawGestureLabel(ctx, hand)
       return
     }
 
@@ -728,57 +466,25 @@ export function FaceHandDetector() {
     // Hand label with handedness if available
     ctx.fillStyle = "#0f172a"
     ctx.font = "bold 12px Arial"
-    ctx.fillText(`${handedness || "HAND"} LANDMARKS`, x, y - 8)
+    ctx.fillText(trackLabel(handedness ? `${handedness.toUpperCase()} HAND` : "HAND", trackId), x, y - 8)
+    drawGestureLabel(ctx, hand)
   }
 
-  const drawHandSkeleton = (ctx: CanvasRenderingContext2D, landmarks: any[]) => {
-    // Draw connections between landmarks to represent fingers
-    const fingerConnections = [
-      // Thumb
-      [0, 1, 2, 3, 4],
-      // Index finger
-      [0, 5, 6, 7, 8],
-      // Middle finger
-      [0, 9, 10, 11, 12],
-      // Ring finger
-      [0, 13, 14, 15, 16],
-      // Pinky
-      [0, 17, 18, 19, 20],
-    ]
-
-    // Draw hand skeleton
-    ctx.strokeStyle = "#0f172a"
-    ctx.lineWidth = 1.5
-
-    for (const connectionGroup of fingerConnections) {
-      ctx.beginPath()
-      const startPoint = landmarks[connectionGroup[0]]
-      ctx.moveTo(startPoint.x, startPoint.y)
-
-      for (let i = 1; i < connectionGroup.length; i++) {
-        const point = landmarks[connectionGroup[i]]
-        ctx.lineTo(point.x, point.y)
-      }
-      ctx.stroke()
-    }
+  // Current gesture under the hand, a recent swipe takes precedence over the pose
+  const drawGestureLabel = (ctx: CanvasRenderingContext2D, hand: HandDetection) => {
+    if (hand.trackId === undefined) return
+    const swipe = swipeLabelsRef.current.get(hand.trackId)
+    const pose = latestGesturesRef.current.hands.find((gesture) => gesture.trackId === hand.trackId)?.pose
+    const label =
+      swipe && swipe.until > performance.now() ? `Swipe ${swipe.direction}` : pose ? POSE_LABELS[pose] : null
+    if (!label) return
 
-    // Draw palm connections
-    ctx.beginPath()
-    ctx.moveTo(landmarks[0].x, landmarks[0].y)
-    ctx.lineTo(landmarks[5].x, landmarks[5].y)
-    ctx.lineTo(landmarks[9].x, landmarks[9].y)
-    ctx.lineTo(landmarks[13].x, landmarks[13].y)
-    ctx.lineTo(landmarks[17].x, landmarks[17].y)
-    ctx.lineTo(landmarks[0].x, landmarks[0].y)
-    ctx.stroke()
-
-    // Draw points at each landmark
-    ctx.fillStyle = "#3b82f6"
-    landmarks.forEach((point) => {
-      ctx.beginPath()
-      ctx.arc(point.x, point.y, 3, 0, Math.PI * 2)
-      ctx.fill()
-    })
+    ctx.font = "bold 12px Arial"
+    const width = ctx.measureText(label).width + 8
+    ctx.fillStyle = "rgba(15, 23, 42, 0.8)"
+    ctx.fillRect(hand.x, hand.y + hand.height + 4, width, 18)
+    ctx.fillStyle = "#ffffff"
+    ctx.fillText(label, hand.x + 4, hand.y + hand.height + 17)
   }
 
   const clearCanvas = () => {
@@ -796,62 +502,68 @@ export function FaceHandDetector() {
     const now = performance.now()
 
     if (now - fpsUpdateTimeRef.current >= 1000) {
-      const fps = Math.round((frameCountRef.current * 1000) / (now - fpsUpdateTimeRef.current))
-      setStats((prev) => ({ ...prev, fps }))
+      const elapsed = now - fpsUpdateTimeRef.current
+      const fps = Math.round((frameCountRef.current * 1000) / elapsed)
+      const detectionRate = Math.round((detectionCountRef.current * 1000) / elapsed)
+      const tracks = trackerRef.current.tracks(now)
+      setStats((prev) => ({ ...prev, fps, detectionRate, tracks }))
       frameCountRef.current = 0
+      detectionCountRef.current = 0
       fpsUpdateTimeRef.current = now
     }
   }
 
+  const captureAndConvert = async () => {
+    const video = videoRef.current
+    if (!video) return
+    try {
+      const file = await captureVideoFrame(video)
+      dispatchCapturedFrame(file)
+      setStatus("Frame sent to the 2D to 3D converter")
+    } catch (error) {
+      setStatus(error instanceof Error ? error.message : "Could not capture frame")
+      console.error("Capture error:", error)
+    }
+  }
+
+  const cancelCountdown = () => {
+    if (countdownTimerRef.current) {
+      clearInterval(countdownTimerRef.current)
+      countdownTimerRef.current = null
+    }
+    setCountdown(null)
+  }
+
+  const startCapture = () => {
+    if (captureDelay === 0) {
+      captureAndConvert()
+      return
+    }
+
+    let remaining = captureDelay
+    setCountdown(remaining)
+    countdownTimerRef.current = setInterval(() => {
+      remaining--
+      if (remaining > 0) {
+        setCountdown(remaining)
+        return
+      }
+      cancelCountdown()
+      captureAndConvert()
+    }, 1000)
+  }
+
   const toggleDetection = () => {
+    isDetectingRef.current = !isDetecting
     setIsDetecting(!isDetecting)
-    if (!isDetecting) {
+    // Pausing leaves nothing stale on the overlay
+    if (isDetecting) {
+      resetTracking()
       clearCanvas()
-      setStats((prev) => ({ ...prev, faces: 0, hands: 0 }))
+      setStats((prev) => ({ ...prev, faces: 0, hands: 0, tracks: [] }))
     }
   }
 
-  // Helper function for basic hand landmarks when ML model fails
-  const generateBasicHandLandmarks = (x: number, y: number, width: number, height: number) => {
-    const landmarks = []
-
-    // Generate landmarks based on hand position
-    // Wrist
-    landmarks.push({ x: x + width * 0.5, y: y + height * 0.9 })
-
-    // Thumb
-    landmarks.push({ x: x + width * 0.3, y: y + height * 0.8 })
-    landmarks.push({ x: x + width * 0.2, y: y + height * 0.65 })
-    landmarks.push({ x: x + width * 0.1, y: y + height * 0.5 })
-    landmarks.push({ x: x + width * 0.05, y: y + height * 0.35 })
-
-    // Index finger
-    landmarks.push({ x: x + width * 0.4, y: y + height * 0.7 })
-    landmarks.push({ x: x + width * 0.35, y: y + height * 0.5 })
-    landmarks.push({ x: x + width * 0.3, y: y + height * 0.3 })
-    landmarks.push({ x: x + width * 0.25, y: y + height * 0.1 })
-
-    // Middle finger
-    landmarks.push({ x: x + width * 0.5, y: y + height * 0.7 })
-    landmarks.push({ x: x + width * 0.5, y: y + height * 0.5 })
-    landmarks.push({ x: x + width * 0.5, y: y + height * 0.3 })
-    landmarks.push({ x: x + width * 0.5, y: y + height * 0.1 })
-
-    // Ring finger
-    landmarks.push({ x: x + width * 0.6, y: y + height * 0.7 })
-    landmarks.push({ x: x + width * 0.65, y: y + height * 0.5 })
-    landmarks.push({ x: x + width * 0.7, y: y + height * 0.3 })
-    landmarks.push({ x: x + width * 0.75, y: y + height * 0.1 })
-
-    // Pinky
-    landmarks.push({ x: x + width * 0.7, y: y + height * 0.75 })
-    landmarks.push({ x: x + width * 0.75, y: y + height * 0.55 })
-    landmarks.push({ x: x + width * 0.8, y: y + height * 0.35 })
-    landmarks.push({ x: x + width * 0.85, y: y + height * 0.15 })
-
-    return landmarks
-  }
-
   return (
     <div className="space-y-4">
       <div className="flex gap-2 flex-wrap">
@@ -868,8 +580,108 @@ export function FaceHandDetector() {
             {isDetecting ? "Pause Detection" : "Resume Detection"}
           </button>
         )}
+
+        {isActive && (
+          <div className="flex items-center gap-2">
+            <button
+              onClick={countdown === null ? startCapture : cancelCountdown}
+              className="bg-white border border-[#0f172a] text-[#0f172a] px-4 py-2 rounded flex items-center gap-2"
+            >
+              <Camera className="h-4 w-4" />
+              {countdown === null ? "Capture & convert" : "Cancel capture"}
+            </button>
+            <select
+              value={captureDelay}
+              onChange={(e) => setCaptureDelay(Number(e.target.value))}
+              disabled={countdown !== null}
+              className="border rounded px-2 py-2 text-sm"
+              aria-label="Capture countdown"
+            >
+              {CAPTURE_COUNTDOWN_OPTIONS.map((seconds) => (
+                <option key={seconds} value={seconds}>
+                  {seconds === 0 ? "No delay" : `${seconds}s delay`}
+                </option>
+              ))}
+            </select>
+          </div>
+        )}
       </div>
 
+      <div className="flex items-center gap-2 text-sm">
+        <label htmlFor="vision-detector" className="text-gray-600">
+          Detector
+        </label>
+        <select
+          id="vision-detector"
+          value={detectorId ?? ""}
+          onChange={(e) => setDetectorId(e.target.value as DetectorId)}
+          disabled={isDetectorLoading || !detectorId}
+          className="border rounded px-2 py-1"
+        >
+          {DETECTOR_OPTIONS.map((option) => (
+            <option key={option.id} value={option.id} disabled={!supportedDetectors.includes(option.id)}>
+              {option.label}
+              {supportedDetectors.includes(option.id) ? "" : " (not supported)"}
+            </option>
+          ))}
+        </select>
+        {detectorId && <span className="text-xs text-gray-500">{getDetectorOption(detectorId).description}</span>}
+      </div>
+
+      {detectorId === "heuristic" && (
+        <div className="flex flex-wrap items-center gap-3 text-xs text-gray-600">
+          <label className="flex items-center gap-1">
+            Scale factor
+            <select
+              value={cascadeOptions.scaleFactor}
+              onChange={(e) => setCascadeOptions((current) => ({ ...current, scaleFactor: Number(e.target.value) }))}
+              disabled={isDetectorLoading}
+              className="border rounded px-1 py-0.5"
+            >
+              {SCALE_FACTOR_OPTIONS.map((factor) => (
+                <option key={factor} value={factor}>
+                  {factor}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="flex items-center gap-1">
+            Min neighbours
+            <input
+              type="number"
+              min={1}
+              max={10}
+              value={cascadeOptions.minNeighbors}
+              onChange={(e) =>
+                setCascadeOptions((current) => ({
+                  ...current,
+                  minNeighbors: Math.min(10, Math.max(1, Number(e.target.value) || 1)),
+                }))
+              }
+              disabled={isDetectorLoading}
+              className="w-14 border rounded px-1 py-0.5"
+            />
+          </label>
+          <label className="flex items-center gap-1">
+            Max faces
+            <input
+              type="number"
+              min={1}
+              max={10}
+              value={cascadeOptions.maxFaces}
+              onChange={(e) =>
+                setCascadeOptions((current) => ({
+                  ...current,
+                  maxFaces: Math.min(10, Math.max(1, Number(e.target.value) || 1)),
+                }))
+              }
+              disabled={isDetectorLoading}
+              className="w-14 border rounded px-1 py-0.5"
+            />
+          </label>
+        </div>
+      )}
+
       <div className="relative bg-[#f1f5f9] rounded-md overflow-hidden">
         <video
           ref={videoRef}
@@ -885,6 +697,11 @@ export function FaceHandDetector() {
           style={{ display: isActive ? "block" : "none" }}
         />
         {!isActive && <div className="h-80 flex items-center justify-center text-gray-500">Live Camera Feed</div>}
+        {countdown !== null && (
+          <div className="absolute inset-0 flex items-center justify-center pointer-events-none">
+            <span className="text-7xl font-bold text-white drop-shadow-lg">{countdown}</span>
+          </div>
+        )}
       </div>
 
       <div className="text-center text-sm text-gray-600">{status}</div>
@@ -892,7 +709,7 @@ export function FaceHandDetector() {
       {isActive && (
         <Card className="bg-[#0f172a] text-white">
           <CardContent className="p-4">
-            <div className="grid grid-cols-3 gap-4 text-center">
+            <div className="grid grid-cols-4 gap-4 text-center">
               <div>
                 <div className="text-2xl font-bold text-blue-400">{stats.faces}</div>
                 <div className="text-sm">Faces</div>
@@ -905,7 +722,24 @@ export function FaceHandDetector() {
                 <div className="text-2xl font-bold text-blue-400">{stats.fps}</div>
                 <div className="text-sm">FPS</div>
               </div>
+              <div>
+                <div className="text-2xl font-bold text-blue-400">{stats.detectionRate}</div>
+                <div className="text-sm">Detections/s</div>
+              </div>
             </div>
+            {stats.tracks.length > 0 && (
+              <div className="flex flex-wrap justify-center gap-2 mt-3 text-xs">
+                {stats.tracks.map((track) => (
+                  <span
+                    key={track.id}
+                    className={`px-2 py-0.5 rounded bg-white/10 ${track.missing ? "text-gray-400" : ""}`}
+                    title={track.missing ? "Not detected in the latest frame" : undefined}
+                  >
+                    {track.kind === "face" ? "Face" : "Hand"} #{track.id} · {(track.lifetimeMs / 1000).toFixed(1)}s
+                  </span>
+                ))}
+              </div>
+            )}
           </CardContent>
         </Card>
       )}
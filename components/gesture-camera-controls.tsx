@@ -0,0 +1,119 @@
+"use client"
+
+import { useEffect, useRef } from "react"
+import { useThree } from "@react-three/fiber"
+import * as THREE from "three"
+import type { CameraPose } from "@/lib/share"
+import { onHandGestures, type HandGesture, type HandPose } from "@/lib/vision/gestures"
+
+interface GestureCameraControlsProps {
+  // Where an open palm puts the camera back
+  homePose: CameraPose
+  onToggleAutoRotate: () => void
+}
+
+// Radians of orbit for a pinch dragged across the whole webcam frame
+const ORBIT_SPEED = Math.PI
+// Changes in the distance between two hands below this ratio are treated as jitter
+const ZOOM_DEADZONE = 0.02
+// A fist must be held this long to toggle auto-rotate, and gone this long before it can toggle again,
+// so a fist flickering in and out of detection toggles once
+const FIST_HOLD_MS = 400
+const FIST_RELEASE_MS = 500
+
+type Controls = { target: THREE.Vector3; minDistance: number; maxDistance: number; update: () => void }
+
+const handDistance = (a: HandGesture, b: HandGesture) =>
+  Math.hypot(a.position.x - b.position.x, a.position.y - b.position.y)
+
+// Drives the orbit controls from the webcam detector's hand gestures: pinch and drag orbits, spreading
+// two pinching hands zooms, an open palm resets the view and holding a fist toggles auto-rotate.
+// Must be inside the Canvas.
+export function GestureCameraControls({ homePose, onToggleAutoRotate }: GestureCameraControlsProps) {
+  const camera = useThree((state) => state.camera)
+  const controls = useThree((state) => state.controls) as Controls | null
+  // Read through refs so a re-render doesn't resubscribe and lose the gesture state
+  const homePoseRef = useRef(homePose)
+  const onToggleAutoRotateRef = useRef(onToggleAutoRotate)
+  homePoseRef.current = homePose
+  onToggleAutoRotateRef.current = onToggleAutoRotate
+
+  useEffect(() => {
+    if (!controls) return
+
+    // Last frame's gesture per hand track, turns positions into drags and poses into one-off actions
+    let previous = new Map<number, HandGesture>()
+    // Distance between two hands at the last applied zoom
+    let spreadAnchor: number | null = null
+    // When the current fist was first seen and last seen, and whether it already toggled
+    let fistSince: number | null = null
+    let fistLastSeen = -Infinity
+    let fistToggled = false
+    const offset = new THREE.Vector3()
+    const spherical = new THREE.Spherical()
+
+    const moveCamera = (update: (spherical: THREE.Spherical) => void) => {
+      spherical.setFromVector3(offset.copy(camera.position).sub(controls.target))
+      update(spherical)
+      spherical.makeSafe()
+      spherical.radius = THREE.MathUtils.clamp(spherical.radius, controls.minDistance, controls.maxDistance)
+      camera.position.copy(controls.target).add(offset.setFromSpherical(spherical))
+      controls.update()
+    }
+
+    const started = (hand: HandGesture, pose: HandPose) =>
+      hand.pose === pose && previous.get(hand.trackId)?.pose !== pose
+
+    return onHandGestures(({ hands, timestamp }) => {
+      if (hands.some((hand) => started(hand, "open-palm"))) {
+        camera.position.set(...homePoseRef.current.position)
+        controls.target.set(...homePoseRef.current.target)
+        controls.update()
+      }
+
+      if (hands.some((hand) => hand.pose === "fist")) {
+        if (fistSince === null) fistSince = timestamp
+        fistLastSeen = timestamp
+        if (!fistToggled && timestamp - fistSince >= FIST_HOLD_MS) {
+          fistToggled = true
+          onToggleAutoRotateRef.current()
+        }
+      } else if (timestamp - fistLastSeen > FIST_RELEASE_MS) {
+        fistSince = null
+        fistToggled = false
+      }
+
+      // Only two deliberate pinches zoom, other two-handed movement in view leaves the camera alone
+      if (hands.length === 2 && hands.every((hand) => hand.pose === "pinch")) {
+        const spread = handDistance(hands[0], hands[1])
+        if (spreadAnchor === null || spread === 0) {
+          spreadAnchor = spread
+        } else if (Math.abs(spread / spreadAnchor - 1) > ZOOM_DEADZONE) {
+          // Hands moving apart bring the camera closer
+          const ratio = spreadAnchor / spread
+          moveCamera((current) => {
+            current.radius *= ratio
+          })
+          spreadAnchor = spread
+        }
+      } else {
+        spreadAnchor = null
+        const hand = hands[0]
+        const last = hand && previous.get(hand.trackId)
+        if (hands.length === 1 && hand.pose === "pinch" && last?.pose === "pinch") {
+          // The frame is unmirrored, moving right in it is a drag to the person's left
+          const dx = -(hand.position.x - last.position.x)
+          const dy = hand.position.y - last.position.y
+          moveCamera((current) => {
+            current.theta -= dx * ORBIT_SPEED
+            current.phi -= dy * ORBIT_SPEED
+          })
+        }
+      }
+
+      previous = new Map(hands.map((hand) => [hand.trackId, hand]))
+    })
+  }, [camera, controls])
+
+  return null
+}
@@ -0,0 +1,200 @@
+"use client"
+
+import type React from "react"
+
+import { useEffect, useRef, useState } from "react"
+import { formatBytes } from "@/lib/api-proxy"
+import {
+  DEFAULT_PREPROCESS_OPTIONS,
+  MAX_DIMENSION_OPTIONS,
+  preprocessImage,
+  type CropRect,
+  type PreprocessOptions,
+  type PreprocessResult,
+} from "@/lib/image-preprocess"
+
+interface ImagePreprocessPanelProps {
+  file: File
+  onConfirm: (file: File) => void
+  onCancel: () => void
+}
+
+// Crops smaller than this (in either direction) are treated as a click and clear the crop
+const MIN_CROP = 0.02
+
+const clamp01 = (value: number) => Math.min(1, Math.max(0, value))
+
+export function ImagePreprocessPanel({ file, onConfirm, onCancel }: ImagePreprocessPanelProps) {
+  const [options, setOptions] = useState<PreprocessOptions>(DEFAULT_PREPROCESS_OPTIONS)
+  const [result, setResult] = useState<PreprocessResult | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [isProcessing, setIsProcessing] = useState(true)
+  const [sourceUrl, setSourceUrl] = useState<string | null>(null)
+  const [previewUrl, setPreviewUrl] = useState<string | null>(null)
+  // Crop being dragged, committed to options on release
+  const [draftCrop, setDraftCrop] = useState<CropRect | null>(null)
+  const dragStart = useRef<{ x: number; y: number } | null>(null)
+
+  useEffect(() => {
+    const url = URL.createObjectURL(file)
+    setSourceUrl(url)
+    return () => URL.revokeObjectURL(url)
+  }, [file])
+
+  useEffect(() => {
+    let cancelled = false
+    setError(null)
+    setIsProcessing(true)
+
+    preprocessImage(file, options)
+      .then((processed) => {
+        if (!cancelled) setResult(processed)
+      })
+      .catch((err) => {
+        console.error("Image preprocessing failed:", err)
+        if (cancelled) return
+        // The previous result no longer matches the options on screen, so it can't be sent
+        setResult(null)
+        setError(err instanceof Error ? err.message : "Could not process image")
+      })
+      .finally(() => {
+        if (!cancelled) setIsProcessing(false)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [file, options])
+
+  useEffect(() => {
+    if (!result) {
+      setPreviewUrl(null)
+      return
+    }
+    const url = URL.createObjectURL(result.file)
+    setPreviewUrl(url)
+    return () => URL.revokeObjectURL(url)
+  }, [result])
+
+  const pointerPosition = (e: React.PointerEvent<HTMLDivElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect()
+    return { x: clamp01((e.clientX - rect.left) / rect.width), y: clamp01((e.clientY - rect.top) / rect.height) }
+  }
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId)
+    dragStart.current = pointerPosition(e)
+    setDraftCrop(null)
+  }
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const start = dragStart.current
+    if (!start) return
+    const current = pointerPosition(e)
+    setDraftCrop({
+      x: Math.min(start.x, current.x),
+      y: Math.min(start.y, current.y),
+      width: Math.abs(current.x - start.x),
+      height: Math.abs(current.y - start.y),
+    })
+  }
+
+  const handlePointerUp = () => {
+    dragStart.current = null
+    const crop = draftCrop && draftCrop.width >= MIN_CROP && draftCrop.height >= MIN_CROP ? draftCrop : null
+    setDraftCrop(null)
+    setOptions((current) => ({ ...current, crop }))
+  }
+
+  const shownCrop = draftCrop ?? options.crop
+
+  return (
+    <div className="border rounded-md p-3 space-y-3 text-sm" onClick={(e) => e.stopPropagation()}>
+      <div className="grid grid-cols-2 gap-3">
+        <div>
+          <p className="text-xs text-gray-500 mb-1">Original · drag to crop</p>
+          <div
+            className="relative select-none touch-none cursor-crosshair"
+            onPointerDown={handlePointerDown}
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+          >
+            {sourceUrl && <img src={sourceUrl} alt="Original" className="w-full rounded pointer-events-none" />}
+            {shownCrop && (
+              <div
+                className="absolute border-2 border-blue-500 bg-blue-500/10 pointer-events-none"
+                style={{
+                  left: `${shownCrop.x * 100}%`,
+                  top: `${shownCrop.y * 100}%`,
+                  width: `${shownCrop.width * 100}%`,
+                  height: `${shownCrop.height * 100}%`,
+                }}
+              />
+            )}
+          </div>
+        </div>
+        <div>
+          <p className="text-xs text-gray-500 mb-1">Will be sent</p>
+          {previewUrl && <img src={previewUrl} alt="Processed preview" className="w-full rounded" />}
+          {result && (
+            <p className="text-xs text-gray-500 mt-1">
+              {result.width}x{result.height} · {formatBytes(result.file.size)} ·{" "}
+              {result.reencoded ? "re-encoded" : "original file"}
+              {result.orientation > 1 && " · EXIF rotation applied"}
+            </p>
+          )}
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3 text-xs">
+        <label className="flex items-center gap-1">
+          Max size
+          <select
+            value={options.maxDimension ?? ""}
+            onChange={(e) =>
+              setOptions((current) => ({ ...current, maxDimension: e.target.value ? Number(e.target.value) : null }))
+            }
+            className="border rounded px-1 py-0.5"
+          >
+            {MAX_DIMENSION_OPTIONS.map((dimension) => (
+              <option key={dimension ?? "original"} value={dimension ?? ""}>
+                {dimension ? `${dimension}px` : "Original"}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="flex items-center gap-1">
+          <input
+            type="checkbox"
+            checked={options.stripMetadata}
+            onChange={(e) => setOptions((current) => ({ ...current, stripMetadata: e.target.checked }))}
+          />
+          Strip EXIF metadata
+        </label>
+        {options.crop && (
+          <button
+            onClick={() => setOptions((current) => ({ ...current, crop: null }))}
+            className="text-blue-600 hover:underline"
+          >
+            Reset crop
+          </button>
+        )}
+      </div>
+
+      {error && <p className="text-xs text-red-600">{error}</p>}
+
+      <div className="flex justify-end gap-2">
+        <button onClick={onCancel} className="px-3 py-1 rounded bg-gray-100">
+          Cancel
+        </button>
+        <button
+          onClick={() => result && onConfirm(result.file)}
+          disabled={!result || isProcessing}
+          className="px-3 py-1 rounded bg-[#0f172a] text-white disabled:opacity-50"
+        >
+          Convert
+        </button>
+      </div>
+    </div>
+  )
+}
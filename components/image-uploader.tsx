@@ -4,14 +4,25 @@ import type React from "react"
 
 import { useState, useRef } from "react"
 import { Upload } from "lucide-react"
+import { POINT_CLOUD_EXTENSIONS, isPointCloudFile } from "@/lib/point-cloud-import"
+import { collectDroppedFiles } from "@/lib/dropped-files"
+import { MAX_UPLOAD_BYTES } from "@/lib/api-proxy"
+import { checkImageSize } from "@/lib/image-preprocess"
+import { ImagePreprocessPanel } from "./image-preprocess-panel"
 
 interface ImageUploaderProps {
   onImageUpload: (file: File) => void
+  onPointCloudUpload?: (file: File) => void
+  // Receives every image when more than one is dropped or selected (folders included)
+  onBatchUpload?: (files: File[]) => void
   isLoading: boolean
 }
 
-export function ImageUploader({ onImageUpload, isLoading }: ImageUploaderProps) {
+export function ImageUploader({ onImageUpload, onPointCloudUpload, onBatchUpload, isLoading }: ImageUploaderProps) {
   const [dragActive, setDragActive] = useState(false)
+  // Image waiting in the preprocessing step before it is handed to onImageUpload
+  const [pendingImage, setPendingImage] = useState<File | null>(null)
+  const [sizeError, setSizeError] = useState<string | null>(null)
   const inputRef = useRef<HTMLInputElement>(null)
 
   const handleDrag = (e: React.DragEvent) => {
@@ -24,60 +35,108 @@ export function ImageUploader({ onImageUpload, isLoading }: ImageUploaderProps)
     }
   }
 
-  const handleDrop = (e: React.DragEvent) => {
+  const handleFile = (file: File) => {
+    if (file.type.startsWith("image/")) {
+      const error = checkImageSize(file)
+      setSizeError(error)
+      if (!error) setPendingImage(file)
+    } else if (onPointCloudUpload && isPointCloudFile(file)) {
+      onPointCloudUpload(file)
+    }
+  }
+
+  const handleFiles = (files: File[]) => {
+    const images = files.filter((file) => file.type.startsWith("image/"))
+    if (onBatchUpload && images.length > 1) {
+      const accepted = images.filter((file) => !checkImageSize(file))
+      const rejected = images.length - accepted.length
+      setSizeError(
+        rejected > 0
+          ? `Skipped ${rejected} image${rejected === 1 ? "" : "s"} over ${MAX_UPLOAD_BYTES / 1024 / 1024} MB`
+          : null,
+      )
+      if (accepted.length > 0) onBatchUpload(accepted)
+    } else if (files[0]) {
+      handleFile(images[0] ?? files[0])
+    }
+  }
+
+  const handleDrop = async (e: React.DragEvent) => {
     e.preventDefault()
     e.stopPropagation()
     setDragActive(false)
 
-    if (e.dataTransfer.files && e.dataTransfer.files[0]) {
-      const file = e.dataTransfer.files[0]
-      if (file.type.startsWith("image/")) {
-        onImageUpload(file)
-      }
-    }
+    handleFiles(onBatchUpload ? await collectDroppedFiles(e.dataTransfer) : Array.from(e.dataTransfer.files))
   }
 
   const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     e.preventDefault()
-    if (e.target.files && e.target.files[0]) {
-      const file = e.target.files[0]
-      if (file.type.startsWith("image/")) {
-        onImageUpload(file)
-      }
+    if (e.target.files) {
+      handleFiles(Array.from(e.target.files))
     }
+    // Allows selecting the same files again
+    e.target.value = ""
   }
 
+  const accept = onPointCloudUpload
+    ? ["image/*", ...POINT_CLOUD_EXTENSIONS.map((extension) => `.${extension}`)].join(",")
+    : "image/*"
+
   const openFileSelector = () => {
     inputRef.current?.click()
   }
 
+  const confirmPendingImage = (file: File) => {
+    setPendingImage(null)
+    onImageUpload(file)
+  }
+
   return (
-    <div
-      className={`relative border-2 border-dashed rounded-lg p-4 transition-colors cursor-pointer ${
-        dragActive ? "border-blue-500 bg-blue-50" : "border-gray-300 hover:border-gray-400"
-      } ${isLoading ? "opacity-50 pointer-events-none" : ""}`}
-      onDragEnter={handleDrag}
-      onDragLeave={handleDrag}
-      onDragOver={handleDrag}
-      onDrop={handleDrop}
-      onClick={openFileSelector}
-    >
-      <input
-        ref={inputRef}
-        type="file"
-        accept="image/*"
-        onChange={handleChange}
-        className="hidden"
-        disabled={isLoading}
-      />
-
-      <div className="text-center">
-        <Upload className="mx-auto h-8 w-8 text-gray-400 mb-2" />
-        <p className="text-sm text-gray-600">
-          {isLoading ? "Processing..." : "Click to upload or drag and drop an image"}
-        </p>
-        <p className="text-xs text-gray-400 mt-1">PNG, JPG, GIF up to 10MB</p>
+    <div className="space-y-3">
+      <div
+        className={`relative border-2 border-dashed rounded-lg p-4 transition-colors cursor-pointer ${
+          dragActive ? "border-blue-500 bg-blue-50" : "border-gray-300 hover:border-gray-400"
+        } ${isLoading ? "opacity-50 pointer-events-none" : ""}`}
+        onDragEnter={handleDrag}
+        onDragLeave={handleDrag}
+        onDragOver={handleDrag}
+        onDrop={handleDrop}
+        onClick={openFileSelector}
+      >
+        <input
+          ref={inputRef}
+          type="file"
+          accept={accept}
+          multiple={!!onBatchUpload}
+          onChange={handleChange}
+          className="hidden"
+          disabled={isLoading}
+        />
+
+        <div className="text-center">
+          <Upload className="mx-auto h-8 w-8 text-gray-400 mb-2" />
+          <p className="text-sm text-gray-600">
+            {isLoading ? "Processing..." : "Click to upload or drag and drop an image"}
+          </p>
+          <p className="text-xs text-gray-400 mt-1">PNG, JPG, GIF up to {MAX_UPLOAD_BYTES / 1024 / 1024}MB</p>
+          {onPointCloudUpload && (
+            <p className="text-xs text-gray-400">or a PLY, PCD, XYZ or OBJ point cloud to inspect</p>
+          )}
+          {onBatchUpload && (
+            <p className="text-xs text-gray-400">Drop several images or a folder to convert them in a batch</p>
+          )}
+        </div>
       </div>
+
+      {sizeError && <p className="text-xs text-red-600">{sizeError}</p>}
+
+      {pendingImage && !isLoading && (
+        <ImagePreprocessPanel
+          file={pendingImage}
+          onConfirm={confirmPendingImage}
+          onCancel={() => setPendingImage(null)}
+        />
+      )}
     </div>
   )
 }
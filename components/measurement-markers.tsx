@@ -0,0 +1,79 @@
+"use client"
+
+import { Html, Line } from "@react-three/drei"
+import { describeMeasurement, type Measurement } from "@/lib/measurements"
+
+type Vec3 = [number, number, number]
+
+interface MeasurementMarkersProps {
+  // Resolves a point index to its position in the normalized viewer geometry, so markers follow the cloud
+  positionOf: (index: number) => Vec3
+  pointCount: number
+  measurements: Measurement[]
+  pendingPicks: number[]
+}
+
+const COLORS = {
+  distance: "#facc15",
+  angle: "#22d3ee",
+  annotation: "#f472b6",
+  pending: "#ffffff",
+}
+
+function Marker({ position, color }: { position: Vec3; color: string }) {
+  return (
+    <mesh position={position}>
+      <sphereGeometry args={[0.02, 10, 10]} />
+      <meshBasicMaterial color={color} depthTest={false} />
+    </mesh>
+  )
+}
+
+function Label({ position, text, color }: { position: Vec3; text: string; color: string }) {
+  return (
+    <Html position={position} center style={{ pointerEvents: "none" }}>
+      <div
+        className="px-1.5 py-0.5 rounded text-[10px] font-medium whitespace-nowrap bg-black/70"
+        style={{ color }}
+      >
+        {text}
+      </div>
+    </Html>
+  )
+}
+
+export function MeasurementMarkers({ positionOf, pointCount, measurements, pendingPicks }: MeasurementMarkersProps) {
+  const midpoint = (points: Vec3[]): Vec3 => {
+    const sum = points.reduce((acc, p) => [acc[0] + p[0], acc[1] + p[1], acc[2] + p[2]], [0, 0, 0])
+    return [sum[0] / points.length, sum[1] / points.length, sum[2] / points.length]
+  }
+
+  return (
+    <group>
+      {measurements.map((measurement) => {
+        const points = measurement.points.filter((index) => index < pointCount).map(positionOf)
+        if (points.length !== measurement.points.length) return null
+        const color = COLORS[measurement.type]
+
+        return (
+          <group key={measurement.id}>
+            {points.map((point, i) => (
+              <Marker key={i} position={point} color={color} />
+            ))}
+            {points.length > 1 && <Line points={points} color={color} lineWidth={2} depthTest={false} />}
+            <Label
+              position={measurement.type === "angle" ? points[1] : midpoint(points)}
+              text={describeMeasurement(measurement)}
+              color={color}
+            />
+          </group>
+        )
+      })}
+      {pendingPicks
+        .filter((index) => index < pointCount)
+        .map((index) => (
+          <Marker key={`pending-${index}`} position={positionOf(index)} color={COLORS.pending} />
+        ))}
+    </group>
+  )
+}
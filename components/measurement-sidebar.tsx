@@ -0,0 +1,109 @@
+"use client"
+
+import { Download, MapPin, Ruler, Trash2, Triangle } from "lucide-react"
+import type { ThreeJSData } from "@/lib/point-cloud"
+import { downloadBlob } from "@/lib/point-cloud-export"
+import {
+  POINTS_PER_TOOL,
+  describeMeasurement,
+  measurementsToJSON,
+  type Measurement,
+  type MeasurementTool,
+} from "@/lib/measurements"
+
+interface MeasurementSidebarProps {
+  data: ThreeJSData
+  activeTool: MeasurementTool | null
+  pendingPicks: number[]
+  measurements: Measurement[]
+  onToolChange: (tool: MeasurementTool | null) => void
+  onRename: (id: string, label: string) => void
+  onDelete: (id: string) => void
+  onClear: () => void
+}
+
+const TOOLS = [
+  { tool: "distance", label: "Distance", icon: Ruler },
+  { tool: "angle", label: "Angle", icon: Triangle },
+  { tool: "annotation", label: "Note", icon: MapPin },
+] as const
+
+export function MeasurementSidebar({
+  data,
+  activeTool,
+  pendingPicks,
+  measurements,
+  onToolChange,
+  onRename,
+  onDelete,
+  onClear,
+}: MeasurementSidebarProps) {
+  const exportJSON = () => {
+    downloadBlob(new Blob([measurementsToJSON(data, measurements)], { type: "application/json" }), "measurements.json")
+  }
+
+  return (
+    <div className="w-56 h-full flex flex-col bg-white border-l text-xs text-[#0f172a]">
+      <div className="p-2 border-b space-y-2">
+        <div className="grid grid-cols-3 gap-1">
+          {TOOLS.map(({ tool, label, icon: Icon }) => (
+            <button
+              key={tool}
+              onClick={() => onToolChange(activeTool === tool ? null : tool)}
+              className={`flex flex-col items-center gap-0.5 py-1 rounded ${
+                activeTool === tool ? "bg-[#0f172a] text-white" : "bg-gray-100"
+              }`}
+            >
+              <Icon className="h-4 w-4" />
+              {label}
+            </button>
+          ))}
+        </div>
+        <p className="text-gray-500">
+          {activeTool
+            ? `Click points in the cloud (${pendingPicks.length}/${POINTS_PER_TOOL[activeTool]})`
+            : "Pick a tool to start measuring"}
+        </p>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-2 space-y-1">
+        {measurements.length === 0 && <p className="text-gray-400">No measurements yet</p>}
+        {measurements.map((measurement) => (
+          <div key={measurement.id} className="flex items-center gap-1 bg-gray-50 rounded px-2 py-1">
+            <span className="w-12 text-gray-500 capitalize">{measurement.type === "annotation" ? "note" : measurement.type}</span>
+            {measurement.type === "annotation" ? (
+              <input
+                value={measurement.label}
+                onChange={(e) => onRename(measurement.id, e.target.value)}
+                className="flex-1 min-w-0 border rounded px-1"
+              />
+            ) : (
+              <span className="flex-1 font-mono">{describeMeasurement(measurement)}</span>
+            )}
+            <button onClick={() => onDelete(measurement.id)} aria-label="Delete measurement">
+              <Trash2 className="h-3 w-3 text-gray-400 hover:text-red-600" />
+            </button>
+          </div>
+        ))}
+      </div>
+
+      <div className="p-2 border-t flex gap-1">
+        <button
+          onClick={exportJSON}
+          disabled={measurements.length === 0}
+          className="flex-1 flex items-center justify-center gap-1 py-1 rounded bg-gray-100 disabled:opacity-50"
+        >
+          <Download className="h-3 w-3" />
+          JSON
+        </button>
+        <button
+          onClick={onClear}
+          disabled={measurements.length === 0}
+          className="flex-1 py-1 rounded bg-gray-100 disabled:opacity-50"
+        >
+          Clear
+        </button>
+      </div>
+    </div>
+  )
+}
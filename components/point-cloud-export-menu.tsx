@@ -0,0 +1,54 @@
+"use client"
+
+import { useState } from "react"
+import { Download } from "lucide-react"
+import type { ThreeJSData } from "@/lib/point-cloud"
+import { EXPORT_FORMATS, downloadPointCloud, type PointCloudExportFormat } from "@/lib/point-cloud-export"
+
+interface PointCloudExportMenuProps {
+  data: ThreeJSData
+  filename?: string
+}
+
+export function PointCloudExportMenu({ data, filename = "point-cloud" }: PointCloudExportMenuProps) {
+  const [isOpen, setIsOpen] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const handleExport = (format: PointCloudExportFormat) => {
+    setError(null)
+    try {
+      downloadPointCloud(data, format, filename)
+      setIsOpen(false)
+    } catch (err) {
+      console.error("Export error:", err)
+      setError(err instanceof Error ? err.message : "Failed to export point cloud")
+    }
+  }
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="bg-white/90 text-[#0f172a] px-3 py-1.5 rounded text-sm flex items-center gap-2 shadow"
+      >
+        <Download className="h-4 w-4" />
+        Export
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 mt-1 w-40 bg-white rounded-md shadow-lg border py-1 z-10">
+          {EXPORT_FORMATS.map(({ format, label }) => (
+            <button
+              key={format}
+              onClick={() => handleExport(format)}
+              className="w-full text-left px-3 py-1.5 text-sm text-gray-700 hover:bg-gray-100"
+            >
+              {label}
+            </button>
+          ))}
+          {error && <p className="px-3 py-1 text-xs text-red-600">{error}</p>}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,89 @@
+"use client"
+
+import { useState } from "react"
+import { Share2 } from "lucide-react"
+import type { ThreeJSData } from "@/lib/point-cloud"
+import type { ShareImages, ShareStateInput } from "@/lib/share"
+import { createShare, getShareUrl } from "@/lib/share-client"
+
+interface ShareButtonProps {
+  data: ThreeJSData
+  images: ShareImages
+  // Read when the button is clicked, so the link captures the current camera and settings
+  getState: () => ShareStateInput
+}
+
+export function ShareButton({ data, images, getState }: ShareButtonProps) {
+  const [isOpen, setIsOpen] = useState(false)
+  const [isSharing, setIsSharing] = useState(false)
+  const [url, setUrl] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [copied, setCopied] = useState(false)
+
+  const handleShare = async () => {
+    setIsOpen(true)
+    setIsSharing(true)
+    setError(null)
+    setUrl(null)
+    setCopied(false)
+    try {
+      const id = await createShare(data, images, getState())
+      setUrl(getShareUrl(id))
+    } catch (err) {
+      console.error("Share error:", err)
+      setError(err instanceof Error ? err.message : "Failed to share point cloud")
+    } finally {
+      setIsSharing(false)
+    }
+  }
+
+  const copyUrl = async () => {
+    if (!url) return
+    try {
+      await navigator.clipboard.writeText(url)
+      setCopied(true)
+    } catch {
+      setError("Could not copy, select the link instead")
+    }
+  }
+
+  return (
+    <div className="relative">
+      <button
+        onClick={handleShare}
+        disabled={isSharing}
+        className="bg-white/90 text-[#0f172a] px-3 py-1.5 rounded text-sm flex items-center gap-2 shadow disabled:opacity-50"
+      >
+        <Share2 className="h-4 w-4" />
+        {isSharing ? "Sharing..." : "Share"}
+      </button>
+
+      {isOpen && !isSharing && (
+        <div className="absolute right-0 mt-1 w-72 bg-white rounded-md shadow-lg border p-2 z-10 space-y-2 text-sm">
+          {url && (
+            <>
+              <input
+                readOnly
+                value={url}
+                onFocus={(e) => e.target.select()}
+                className="w-full border rounded px-2 py-1 text-xs"
+              />
+              <p className="text-xs text-gray-500">Anyone with the link can view this cloud with the current view.</p>
+            </>
+          )}
+          {error && <p className="text-xs text-red-600">{error}</p>}
+          <div className="flex justify-end gap-2">
+            <button onClick={() => setIsOpen(false)} className="px-2 py-1 rounded bg-gray-100 text-xs">
+              Close
+            </button>
+            {url && (
+              <button onClick={copyUrl} className="px-2 py-1 rounded bg-[#0f172a] text-white text-xs">
+                {copied ? "Copied" : "Copy link"}
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,61 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import type { SharedCloud } from "@/lib/share"
+import { fetchShare } from "@/lib/share-client"
+import { Visualizer3D } from "./visualizer-3d"
+
+interface SharedCloudViewerProps {
+  id: string
+}
+
+export function SharedCloudViewer({ id }: SharedCloudViewerProps) {
+  const [shared, setShared] = useState<SharedCloud | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+    setShared(null)
+    setError(null)
+
+    fetchShare(id)
+      .then((result) => {
+        if (!cancelled) setShared(result)
+      })
+      .catch((err) => {
+        console.error("Failed to load shared cloud:", err)
+        if (!cancelled) setError(err instanceof Error ? err.message : "Could not load shared cloud")
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [id])
+
+  if (error) {
+    return (
+      <div className="bg-red-50 border border-red-200 rounded-md p-3">
+        <p className="text-red-600 text-sm">{error}</p>
+      </div>
+    )
+  }
+
+  // Auto-rotate stays off so the link opens on, and stays at, the view that was shared
+  return (
+    <div className="space-y-2">
+      <Visualizer3D
+        threejsData={shared?.threejsData ?? null}
+        isLoading={!shared}
+        readOnly
+        initialCamera={shared?.state.camera}
+        settingsOverride={shared ? { ...shared.settings, autoRotate: false } : undefined}
+      />
+      {shared && (
+        <p className="text-xs text-gray-500">
+          {shared.state.name ? `${shared.state.name} · ` : ""}
+          {shared.state.points.toLocaleString()} points · shared {new Date(shared.state.createdAt).toLocaleString()}
+        </p>
+      )}
+    </div>
+  )
+}
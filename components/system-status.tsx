@@ -1,13 +1,7 @@
 "use client"
 
 import { useEffect, useState } from "react"
-
-interface SystemActivity {
-  faceDetection: boolean
-  handDetection: boolean
-  imageConversion: boolean
-  cameraActive: boolean
-}
+import { SYSTEM_STATUS_EVENT, type SystemActivity } from "@/lib/system-status"
 
 export function SystemStatus() {
   const [activities, setActivities] = useState<SystemActivity>({
@@ -19,19 +13,17 @@ export function SystemStatus() {
 
   useEffect(() => {
     // Listen for system activity updates
-    const handleSystemUpdate = (event: CustomEvent) => {
+    const handleSystemUpdate = (event: Event) => {
       setActivities((prev) => ({
         ...prev,
-        ...event.detail,
+        ...(event as CustomEvent<Partial<SystemActivity>>).detail,
       }))
     }
 
-    // @ts-ignore
-    window.addEventListener("systemStatusUpdate", handleSystemUpdate)
+    window.addEventListener(SYSTEM_STATUS_EVENT, handleSystemUpdate)
 
     return () => {
-      // @ts-ignore
-      window.removeEventListener("systemStatusUpdate", handleSystemUpdate)
+      window.removeEventListener(SYSTEM_STATUS_EVENT, handleSystemUpdate)
     }
   }, [])
 
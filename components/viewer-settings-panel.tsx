@@ -0,0 +1,201 @@
+"use client"
+
+import { RotateCcw } from "lucide-react"
+import {
+  COLOR_MODES,
+  POINT_BUDGETS,
+  type ColorMode,
+  type RenderMode,
+  type ViewerSettings,
+} from "@/lib/viewer-settings"
+
+interface ViewerSettingsPanelProps {
+  settings: ViewerSettings
+  onChange: (updates: Partial<ViewerSettings>) => void
+  onReset: () => void
+  canRenderSurface: boolean
+  canColorByNormal: boolean
+}
+
+export function ViewerSettingsPanel({
+  settings,
+  onChange,
+  onReset,
+  canRenderSurface,
+  canColorByNormal,
+}: ViewerSettingsPanelProps) {
+  return (
+    <div className="w-56 max-h-64 overflow-y-auto bg-white/95 rounded-md shadow-lg border p-3 text-xs text-[#0f172a] space-y-3">
+      <div>
+        <p className="font-medium mb-1">Render</p>
+        <div className="flex gap-1">
+          {(["points", "surface"] as RenderMode[]).map((mode) => (
+            <button
+              key={mode}
+              onClick={() => onChange({ renderMode: mode })}
+              disabled={mode === "surface" && !canRenderSurface}
+              className={`flex-1 px-2 py-0.5 rounded capitalize disabled:opacity-40 ${
+                settings.renderMode === mode ? "bg-[#0f172a] text-white" : "bg-gray-100"
+              }`}
+            >
+              {mode}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {settings.renderMode === "surface" && canRenderSurface ? (
+        <div className="space-y-1">
+          <label className="flex items-center gap-1">
+            <input
+              type="checkbox"
+              checked={settings.wireframe}
+              onChange={(e) => onChange({ wireframe: e.target.checked })}
+            />
+            Wireframe
+          </label>
+          <label className="block">
+            Edge cutoff {Math.round(settings.maxDepthJump * 100)}%
+            <input
+              type="range"
+              min={0.005}
+              max={0.5}
+              step={0.005}
+              value={settings.maxDepthJump}
+              onChange={(e) => onChange({ maxDepthJump: Number(e.target.value) })}
+              className="w-full"
+            />
+          </label>
+        </div>
+      ) : (
+        <div className="space-y-1">
+          <label className="block">
+            Point size {settings.pointSize.toFixed(3)}
+            <input
+              type="range"
+              min={0.002}
+              max={0.08}
+              step={0.001}
+              value={settings.pointSize}
+              onChange={(e) => onChange({ pointSize: Number(e.target.value) })}
+              className="w-full"
+            />
+          </label>
+          <label className="flex items-center gap-1">
+            <input
+              type="checkbox"
+              checked={settings.sizeAttenuation}
+              onChange={(e) => onChange({ sizeAttenuation: e.target.checked })}
+            />
+            Shrink with distance
+          </label>
+        </div>
+      )}
+
+      <div className="space-y-1">
+        <p className="font-medium">Color</p>
+        <select
+          value={settings.colorMode}
+          onChange={(e) => onChange({ colorMode: e.target.value as ColorMode })}
+          className="w-full border rounded px-1 py-0.5"
+        >
+          {COLOR_MODES.map(({ mode, label }) => (
+            <option key={mode} value={mode} disabled={mode === "normal" && !canColorByNormal}>
+              {label}
+            </option>
+          ))}
+        </select>
+        {settings.colorMode === "single" && (
+          <input
+            type="color"
+            value={settings.singleColor}
+            onChange={(e) => onChange({ singleColor: e.target.value })}
+            className="w-full h-6"
+          />
+        )}
+      </div>
+
+      <div className="space-y-1">
+        <label className="flex items-center gap-1 font-medium">
+          <input
+            type="checkbox"
+            checked={settings.autoRotate}
+            onChange={(e) => onChange({ autoRotate: e.target.checked })}
+          />
+          Auto-rotate
+        </label>
+        {settings.autoRotate && (
+          <label className="block">
+            Speed {settings.rotationSpeed.toFixed(2)} rad/s
+            <input
+              type="range"
+              min={0.02}
+              max={2}
+              step={0.02}
+              value={settings.rotationSpeed}
+              onChange={(e) => onChange({ rotationSpeed: Number(e.target.value) })}
+              className="w-full"
+            />
+          </label>
+        )}
+      </div>
+
+      <div className="space-y-1">
+        <label className="flex items-center justify-between">
+          <span className="font-medium">Point budget</span>
+          <select
+            value={settings.pointBudget}
+            onChange={(e) => onChange({ pointBudget: Number(e.target.value) })}
+            className="border rounded px-1 py-0.5"
+          >
+            {POINT_BUDGETS.map((budget) => (
+              <option key={budget} value={budget}>
+                {budget >= 1000000 ? `${budget / 1000000}M` : `${budget / 1000}k`}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="flex items-center gap-1">
+          <input
+            type="checkbox"
+            checked={settings.progressiveUpgrade}
+            onChange={(e) => onChange({ progressiveUpgrade: e.target.checked })}
+          />
+          Load full detail when idle
+        </label>
+      </div>
+
+      <div className="space-y-1">
+        <label className="flex items-center gap-1 font-medium">
+          <input
+            type="checkbox"
+            checked={settings.gestureControl}
+            onChange={(e) => onChange({ gestureControl: e.target.checked })}
+          />
+          Hand gesture control
+        </label>
+        {settings.gestureControl && (
+          <p className="text-gray-500">
+            Needs the webcam detector running with MediaPipe. Pinch and drag to orbit, spread two hands to zoom, open
+            palm to reset the view, fist to pause auto-rotate.
+          </p>
+        )}
+      </div>
+
+      <label className="flex items-center justify-between">
+        <span className="font-medium">Background</span>
+        <input
+          type="color"
+          value={settings.backgroundColor}
+          onChange={(e) => onChange({ backgroundColor: e.target.value })}
+          className="w-10 h-6"
+        />
+      </label>
+
+      <button onClick={onReset} className="w-full flex items-center justify-center gap-1 py-1 rounded bg-gray-100">
+        <RotateCcw className="h-3 w-3" />
+        Reset to defaults
+      </button>
+    </div>
+  )
+}
@@ -1,38 +1,73 @@
 "use client"
 
-import { useRef, useEffect, useState } from "react"
-import { Canvas, useFrame } from "@react-three/fiber"
+import { useRef, useEffect, useMemo, useState, type MutableRefObject } from "react"
+import { Ruler, Settings } from "lucide-react"
+import { Canvas, useFrame, useThree, type ThreeEvent } from "@react-three/fiber"
 import { OrbitControls, Environment } from "@react-three/drei"
 import * as THREE from "three"
+import { getPointBounds, getPointCount, isGridOrdered, isValidPoint, type ThreeJSData } from "@/lib/point-cloud"
+import { buildGridSurfaceIndices } from "@/lib/surface-mesh"
+import { depthGradientColors, normalColors } from "@/lib/point-cloud-colors"
+import type { ViewerSettings } from "@/lib/viewer-settings"
+import type { CameraPose, ShareImages } from "@/lib/share"
+import { POINTS_PER_TOOL, createMeasurement, type Measurement, type MeasurementTool } from "@/lib/measurements"
+import { useViewerSettings } from "@/hooks/use-viewer-settings"
+import { useProgressivePointCloud } from "@/hooks/use-progressive-point-cloud"
+import { PointCloudExportMenu } from "./point-cloud-export-menu"
+import { ViewerSettingsPanel } from "./viewer-settings-panel"
+import { MeasurementMarkers } from "./measurement-markers"
+import { MeasurementSidebar } from "./measurement-sidebar"
+import { ShareButton } from "./share-button"
+import { GestureCameraControls } from "./gesture-camera-controls"
 
-interface ThreeJSData {
-  vertices: number[]
-  colors: number[]
-  metadata: {
-    version: number
-    type: string
-    points: number
-    width: number
-    height: number
-  }
+type Vec3 = [number, number, number]
+
+const DEFAULT_CAMERA_POSE: CameraPose = { position: [0, 0, 3], target: [0, 0, 0] }
+
+// Maps raw cloud coordinates into the 2-unit cube shown in the viewer
+interface CloudFit {
+  offset: Vec3
+  scale: number
 }
 
 interface PointCloudProps {
   data: ThreeJSData
+  settings: ViewerSettings
+  highlightIndex?: number | null
+  onPointHover?: (index: number | null) => void
+  onPointClick?: (index: number) => void
+  measurements: Measurement[]
+  pendingPicks: number[]
+  // Holds auto-rotate without changing the saved setting
+  rotationPaused?: boolean
+  // Current auto-rotate angle, owned by the viewer so it can be saved with a share
+  rotationRef: MutableRefObject<number>
 }
 
-function PointCloud({ data }: PointCloudProps) {
-  const meshRef = useRef<THREE.Points>(null)
+function PointCloud({
+  data,
+  settings,
+  highlightIndex,
+  onPointHover,
+  onPointClick,
+  measurements,
+  pendingPicks,
+  rotationPaused = false,
+  rotationRef,
+}: PointCloudProps) {
+  const meshRef = useRef<THREE.Group>(null)
   const [geometry, setGeometry] = useState<THREE.BufferGeometry | null>(null)
+  const [fit, setFit] = useState<CloudFit>({ offset: [0, 0, 0], scale: 1 })
+  const { renderMode, wireframe, maxDepthJump, colorMode } = settings
 
   useEffect(() => {
     if (!data.vertices || !data.colors) return
 
     const geo = new THREE.BufferGeometry()
 
-    // Convert vertices array to Float32Array
-    const vertices = new Float32Array(data.vertices)
-    const colors = new Float32Array(data.colors)
+    // Typed arrays from the worker are used as-is, plain arrays are converted once
+    const vertices = data.vertices instanceof Float32Array ? data.vertices : new Float32Array(data.vertices)
+    const colors = data.colors instanceof Float32Array ? data.colors : new Float32Array(data.colors)
 
     console.log("Creating geometry with:", {
       verticesLength: vertices.length,
@@ -42,59 +77,284 @@ function PointCloud({ data }: PointCloudProps) {
 
     geo.setAttribute("position", new THREE.BufferAttribute(vertices, 3))
     geo.setAttribute("color", new THREE.BufferAttribute(colors, 3))
+    // Keep the source colors around, the color attribute is swapped when the color mode changes
+    geo.userData.sourceColors = colors
 
-    // Center the geometry
-    geo.computeBoundingBox()
-    if (geo.boundingBox) {
+    // Center and scale through the object transform so the shared vertex array stays untouched.
+    // The bounds skip missing grid samples, three.js would let their NaN positions spoil the box and
+    // sphere used for culling and picking.
+    const bounds = getPointBounds(vertices)
+    let fit: CloudFit = { offset: [0, 0, 0], scale: 1 }
+    if (bounds) {
+      geo.boundingBox = new THREE.Box3(new THREE.Vector3(...bounds.min), new THREE.Vector3(...bounds.max))
+      geo.boundingSphere = geo.boundingBox.getBoundingSphere(new THREE.Sphere())
       const center = geo.boundingBox.getCenter(new THREE.Vector3())
       const size = geo.boundingBox.getSize(new THREE.Vector3())
 
       // Scale the geometry to fit nicely in view
       const maxDimension = Math.max(size.x, size.y, size.z)
-      const scale = 2 / maxDimension // Scale to fit in a 2-unit cube
-
-      geo.translate(-center.x, -center.y, -center.z)
-      geo.scale(scale, scale, scale)
+      const scale = 2 / (maxDimension || 1) // Scale to fit in a 2-unit cube
 
+      fit = { offset: [-center.x * scale, -center.y * scale, -center.z * scale], scale }
       console.log("Geometry centered and scaled:", { center, size, scale })
     }
 
     setGeometry(geo)
+    setFit(fit)
+
+    return () => geo.dispose()
   }, [data])
 
-  useFrame(() => {
-    if (meshRef.current) {
-      meshRef.current.rotation.y += 0.003
+  // The surface shares positions with the points, only adding triangles and normals
+  const surfaceGeometry = useMemo(() => {
+    if (!geometry || renderMode !== "surface" || !isGridOrdered(data)) return null
+
+    const surface = new THREE.BufferGeometry()
+    surface.setAttribute("position", geometry.getAttribute("position"))
+    surface.boundingBox = geometry.boundingBox
+    surface.boundingSphere = geometry.boundingSphere
+    const positions = geometry.getAttribute("position").array
+    surface.setIndex(
+      new THREE.BufferAttribute(
+        buildGridSurfaceIndices(positions, data.metadata.width, data.metadata.height, maxDepthJump),
+        1,
+      ),
+    )
+    surface.computeVertexNormals()
+    return surface
+  }, [geometry, data, renderMode, maxDepthJump])
+
+  useEffect(() => {
+    return () => surfaceGeometry?.dispose()
+  }, [surfaceGeometry])
+
+  const displayColors = useMemo(() => {
+    if (!geometry) return null
+    const positions = geometry.getAttribute("position").array
+
+    if (colorMode === "depth") {
+      return depthGradientColors(positions)
     }
+
+    if (colorMode === "normal" && isGridOrdered(data)) {
+      // Normals of the fully connected grid surface, discontinuities included
+      const normalSource = new THREE.BufferGeometry()
+      normalSource.setAttribute("position", geometry.getAttribute("position"))
+      normalSource.setIndex(
+        new THREE.BufferAttribute(buildGridSurfaceIndices(positions, data.metadata.width, data.metadata.height, 1), 1),
+      )
+      normalSource.computeVertexNormals()
+      const colors = normalColors(normalSource.getAttribute("normal").array)
+      normalSource.dispose()
+      return colors
+    }
+
+    return geometry.userData.sourceColors as Float32Array
+  }, [geometry, data, colorMode])
+
+  useEffect(() => {
+    if (!displayColors) return
+    for (const target of [geometry, surfaceGeometry]) {
+      target?.setAttribute("color", new THREE.BufferAttribute(displayColors, 3))
+    }
+  }, [geometry, surfaceGeometry, displayColors])
+
+  useFrame((_, delta) => {
+    if (settings.autoRotate && !rotationPaused) rotationRef.current += settings.rotationSpeed * delta
+    if (meshRef.current) meshRef.current.rotation.y = rotationRef.current
   })
 
   if (!geometry) return null
 
+  const positions = geometry.getAttribute("position")
+  const positionOf = (index: number): Vec3 => [
+    positions.getX(index) * fit.scale + fit.offset[0],
+    positions.getY(index) * fit.scale + fit.offset[1],
+    positions.getZ(index) * fit.scale + fit.offset[2],
+  ]
+  const highlightPosition =
+    highlightIndex !== null &&
+    highlightIndex !== undefined &&
+    highlightIndex < positions.count &&
+    isValidPoint(positions.array, highlightIndex)
+      ? positionOf(highlightIndex)
+      : null
+
+  const useVertexColors = colorMode !== "single"
+  // Toggling vertex colors or attenuation changes the shader, remount the material instead of patching it
+  const materialKey = `${useVertexColors}-${settings.sizeAttenuation}`
+
   return (
-    <points ref={meshRef} geometry={geometry}>
-      <pointsMaterial size={0.015} vertexColors sizeAttenuation />
-    </points>
+    <group ref={meshRef}>
+      {surfaceGeometry ? (
+        <mesh geometry={surfaceGeometry} position={fit.offset} scale={fit.scale}>
+          <meshStandardMaterial
+            key={materialKey}
+            vertexColors={useVertexColors}
+            color={useVertexColors ? "#ffffff" : settings.singleColor}
+            wireframe={wireframe}
+            side={THREE.DoubleSide}
+            roughness={0.8}
+          />
+        </mesh>
+      ) : (
+        <points
+          geometry={geometry}
+          position={fit.offset}
+          scale={fit.scale}
+          onPointerMove={onPointHover ? (e: ThreeEvent<PointerEvent>) => onPointHover(e.index ?? null) : undefined}
+          onPointerOut={onPointHover ? () => onPointHover(null) : undefined}
+          onClick={
+            onPointClick
+              ? (e: ThreeEvent<MouseEvent>) => {
+                  // Ignore clicks that end an orbit drag
+                  if (e.delta > 4 || e.index === undefined) return
+                  e.stopPropagation()
+                  onPointClick(e.index)
+                }
+              : undefined
+          }
+        >
+          <pointsMaterial
+            key={materialKey}
+            size={settings.pointSize}
+            vertexColors={useVertexColors}
+            color={useVertexColors ? "#ffffff" : settings.singleColor}
+            sizeAttenuation={settings.sizeAttenuation}
+          />
+        </points>
+      )}
+      {highlightPosition && (
+        <mesh position={highlightPosition}>
+          <sphereGeometry args={[0.03, 12, 12]} />
+          <meshBasicMaterial color="#ef4444" />
+        </mesh>
+      )}
+      <MeasurementMarkers
+        positionOf={positionOf}
+        pointCount={positions.count}
+        measurements={measurements}
+        pendingPicks={pendingPicks}
+      />
+    </group>
   )
 }
 
+interface CameraPoseSyncProps {
+  initialPose?: CameraPose | null
+  poseRef: MutableRefObject<(() => CameraPose) | null>
+  rotationRef: MutableRefObject<number>
+}
+
+// Applies a saved camera pose once the orbit controls exist, and exposes the current pose to the toolbar
+function CameraPoseSync({ initialPose, poseRef, rotationRef }: CameraPoseSyncProps) {
+  const camera = useThree((state) => state.camera)
+  const controls = useThree((state) => state.controls) as { target: THREE.Vector3; update: () => void } | null
+
+  useEffect(() => {
+    if (!initialPose || !controls) return
+    camera.position.set(...initialPose.position)
+    controls.target.set(...initialPose.target)
+    controls.update()
+    rotationRef.current = initialPose.modelRotation ?? 0
+  }, [camera, controls, initialPose, rotationRef])
+
+  useEffect(() => {
+    poseRef.current = () => ({
+      position: camera.position.toArray() as Vec3,
+      target: controls ? (controls.target.toArray() as Vec3) : [0, 0, 0],
+      modelRotation: rotationRef.current,
+    })
+    return () => {
+      poseRef.current = null
+    }
+  }, [camera, controls, poseRef, rotationRef])
+
+  return null
+}
+
 interface Visualizer3DProps {
   threejsData: ThreeJSData | null
   isLoading: boolean
+  highlightIndex?: number | null
+  onPointHover?: (index: number | null) => void
+  // Hides the settings and measurement tools, used by the shared view page
+  readOnly?: boolean
+  initialCamera?: CameraPose | null
+  // Shown instead of the locally saved settings
+  settingsOverride?: ViewerSettings
+  // Images stored with a share, the Share button only shows when this is set
+  shareImages?: ShareImages
 }
 
-export function Visualizer3D({ threejsData, isLoading }: Visualizer3DProps) {
-  if (isLoading) {
+export function Visualizer3D({
+  threejsData,
+  isLoading,
+  highlightIndex,
+  onPointHover,
+  readOnly = false,
+  initialCamera,
+  settingsOverride,
+  shareImages,
+}: Visualizer3DProps) {
+  const { settings: storedSettings, updateSettings, resetSettings } = useViewerSettings()
+  const settings = settingsOverride ?? storedSettings
+  const cameraPoseRef = useRef<(() => CameraPose) | null>(null)
+  const rotationRef = useRef(0)
+  const [showSettings, setShowSettings] = useState(false)
+  const [showMeasurements, setShowMeasurements] = useState(false)
+  const [activeTool, setActiveTool] = useState<MeasurementTool | null>(null)
+  const [pendingPicks, setPendingPicks] = useState<number[]>([])
+  const [measurements, setMeasurements] = useState<Measurement[]>([])
+  // Toggled by a fist when gesture control is on
+  const [rotationPaused, setRotationPaused] = useState(false)
+  const gestureControl = settings.gestureControl && !readOnly
+  const { displayData, isPreview } = useProgressivePointCloud(threejsData, {
+    pointBudget: settings.pointBudget,
+    upgradeWhenIdle: settings.progressiveUpgrade,
+  })
+
+  // Measurements reference point indices, they don't carry over to another cloud
+  useEffect(() => {
+    setMeasurements([])
+    setPendingPicks([])
+  }, [threejsData])
+
+  const changeTool = (tool: MeasurementTool | null) => {
+    setActiveTool(tool)
+    setPendingPicks([])
+  }
+
+  const handlePointPick = (index: number) => {
+    if (!threejsData || !activeTool) return
+
+    const picks = [...pendingPicks, index]
+    if (picks.length < POINTS_PER_TOOL[activeTool]) {
+      setPendingPicks(picks)
+      return
+    }
+
+    const annotationCount = measurements.filter((m) => m.type === "annotation").length
+    setMeasurements((prev) => [...prev, createMeasurement(threejsData, activeTool, picks, annotationCount)])
+    setPendingPicks([])
+  }
+
+  const renameAnnotation = (id: string, label: string) => {
+    setMeasurements((prev) => prev.map((m) => (m.id === id && m.type === "annotation" ? { ...m, label } : m)))
+  }
+
+  if (isLoading || (threejsData && !displayData)) {
     return (
       <div className="w-full h-80 bg-[#f1f5f9] rounded-md flex items-center justify-center">
         <div className="text-center">
           <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto mb-2"></div>
-          <p className="text-gray-500">Converting to 3D...</p>
+          <p className="text-gray-500">{isLoading ? "Converting to 3D..." : "Preparing point cloud..."}</p>
         </div>
       </div>
     )
   }
 
-  if (!threejsData) {
+  if (!threejsData || !displayData) {
     return (
       <div className="w-full h-80 bg-[#f1f5f9] rounded-md flex items-center justify-center text-gray-500">
         3D Preview Area (Upload an image)
@@ -103,14 +363,113 @@ export function Visualizer3D({ threejsData, isLoading }: Visualizer3DProps) {
   }
 
   return (
-    <div className="w-full h-80 bg-black rounded-md overflow-hidden">
-      <Canvas camera={{ position: [0, 0, 3], fov: 75 }}>
-        <ambientLight intensity={0.6} />
-        <pointLight position={[10, 10, 10]} />
-        <PointCloud data={threejsData} />
-        <OrbitControls enablePan={true} enableZoom={true} enableRotate={true} minDistance={1} maxDistance={10} />
-        <Environment preset="studio" />
-      </Canvas>
+    <div
+      className="relative w-full h-80 rounded-md overflow-hidden flex"
+      style={{ backgroundColor: settings.backgroundColor }}
+    >
+      <div className="relative flex-1 min-w-0">
+        <Canvas
+          camera={{ position: DEFAULT_CAMERA_POSE.position, fov: 75 }}
+          onCreated={({ raycaster }) => {
+            // The default 1 unit threshold covers most of the normalized cloud
+            raycaster.params.Points = { threshold: 0.02 }
+          }}
+        >
+          <color attach="background" args={[settings.backgroundColor]} />
+          <ambientLight intensity={0.6} />
+          <pointLight position={[10, 10, 10]} />
+          {/* Point indices only match the full cloud, so picking waits for the final level */}
+          <PointCloud
+            data={displayData}
+            highlightIndex={isPreview ? null : highlightIndex}
+            onPointHover={isPreview ? undefined : onPointHover}
+            onPointClick={showMeasurements && activeTool && !isPreview ? handlePointPick : undefined}
+            measurements={showMeasurements && !isPreview ? measurements : []}
+            pendingPicks={showMeasurements && !isPreview ? pendingPicks : []}
+            settings={settings}
+            rotationPaused={gestureControl && rotationPaused}
+            rotationRef={rotationRef}
+          />
+          <OrbitControls
+            makeDefault
+            enablePan={true}
+            enableZoom={true}
+            enableRotate={true}
+            minDistance={1}
+            maxDistance={10}
+          />
+          <CameraPoseSync initialPose={initialCamera} poseRef={cameraPoseRef} rotationRef={rotationRef} />
+          {gestureControl && (
+            <GestureCameraControls
+              homePose={initialCamera ?? DEFAULT_CAMERA_POSE}
+              onToggleAutoRotate={() => setRotationPaused((paused) => !paused)}
+            />
+          )}
+          <Environment preset="studio" />
+        </Canvas>
+        {!readOnly && (
+          <div className="absolute top-2 left-2 space-y-1">
+            <div className="flex gap-1">
+              <button
+                onClick={() => setShowSettings(!showSettings)}
+                className="bg-white/90 text-[#0f172a] p-1.5 rounded shadow"
+                aria-label="Viewer settings"
+              >
+                <Settings className="h-4 w-4" />
+              </button>
+              <button
+                onClick={() => setShowMeasurements(!showMeasurements)}
+                className={`p-1.5 rounded shadow ${showMeasurements ? "bg-[#0f172a] text-white" : "bg-white/90 text-[#0f172a]"}`}
+                aria-label="Measurement tools"
+              >
+                <Ruler className="h-4 w-4" />
+              </button>
+            </div>
+            {showSettings && (
+              <ViewerSettingsPanel
+                settings={settings}
+                onChange={updateSettings}
+                onReset={resetSettings}
+                canRenderSurface={isGridOrdered(threejsData)}
+                canColorByNormal={isGridOrdered(threejsData)}
+              />
+            )}
+          </div>
+        )}
+        <div className="absolute top-2 right-2 flex gap-1">
+          {shareImages && !readOnly && (
+            <ShareButton
+              data={threejsData}
+              images={shareImages}
+              getState={() => ({ camera: cameraPoseRef.current?.() ?? null, settings: { ...settings } })}
+            />
+          )}
+          <PointCloudExportMenu data={threejsData} />
+        </div>
+        {gestureControl && (
+          <div className="absolute bottom-2 right-2 bg-white/90 text-[#0f172a] text-xs rounded px-2 py-1 shadow">
+            Gesture control{settings.autoRotate && rotationPaused ? " · auto-rotate paused" : ""}
+          </div>
+        )}
+        {isPreview && (
+          <div className="absolute bottom-2 left-2 bg-white/90 text-[#0f172a] text-xs rounded px-2 py-1 shadow">
+            Preview: {displayData.metadata.points.toLocaleString()} of {getPointCount(threejsData).toLocaleString()}{" "}
+            points
+          </div>
+        )}
+      </div>
+      {showMeasurements && !readOnly && (
+        <MeasurementSidebar
+          data={threejsData}
+          activeTool={activeTool}
+          pendingPicks={pendingPicks}
+          measurements={measurements}
+          onToolChange={changeTool}
+          onRename={renameAnnotation}
+          onDelete={(id) => setMeasurements((prev) => prev.filter((m) => m.id !== id))}
+          onClear={() => setMeasurements([])}
+        />
+      )}
     </div>
   )
 }
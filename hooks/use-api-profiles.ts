@@ -0,0 +1,80 @@
+"use client"
+
+import { useCallback, useEffect, useRef, useState } from "react"
+import {
+  DEFAULT_API_PROFILES,
+  PROXY_PROFILE,
+  getActiveProfile,
+  loadApiProfiles,
+  saveApiProfiles,
+  type ApiProfile,
+  type ApiProfilesState,
+} from "@/lib/api-profiles"
+
+// Keeps every component that talks to the backend on the same active profile
+const PROFILES_EVENT = "apiProfilesUpdate"
+
+const isSameProfile = (a: ApiProfile, b: ApiProfile) => {
+  const keys = Object.keys(a) as (keyof ApiProfile)[]
+  return keys.length === Object.keys(b).length && keys.every((key) => a[key] === b[key])
+}
+
+const commit = (next: ApiProfilesState) => {
+  saveApiProfiles(next)
+  window.dispatchEvent(new CustomEvent(PROFILES_EVENT, { detail: next }))
+}
+
+export function useApiProfiles() {
+  // Start from defaults so server and client render the same markup, then hydrate from storage
+  const [state, setState] = useState<ApiProfilesState>(DEFAULT_API_PROFILES)
+
+  useEffect(() => {
+    setState(loadApiProfiles())
+
+    const handleUpdate = (event: Event) => {
+      setState((event as CustomEvent<ApiProfilesState>).detail)
+    }
+
+    window.addEventListener(PROFILES_EVENT, handleUpdate)
+    return () => window.removeEventListener(PROFILES_EVENT, handleUpdate)
+  }, [])
+
+  const setActiveProfile = useCallback((id: string) => {
+    commit({ ...loadApiProfiles(), activeId: id })
+  }, [])
+
+  // Adds the profile, or replaces the stored profile with the same id
+  const saveProfile = useCallback((profile: ApiProfile) => {
+    if (profile.id === PROXY_PROFILE.id) return
+    const current = loadApiProfiles()
+    const exists = current.profiles.some((p) => p.id === profile.id)
+    const profiles = exists
+      ? current.profiles.map((p) => (p.id === profile.id ? profile : p))
+      : [...current.profiles, profile]
+    commit({ ...current, profiles })
+  }, [])
+
+  const deleteProfile = useCallback((id: string) => {
+    if (id === PROXY_PROFILE.id) return
+    const current = loadApiProfiles()
+    commit({
+      profiles: current.profiles.filter((p) => p.id !== id),
+      activeId: current.activeId === id ? PROXY_PROFILE.id : current.activeId,
+    })
+  }, [])
+
+  // Every profiles event rebuilds the state, the active profile keeps its identity unless its own
+  // fields change, so effects keyed on it don't rerun when another profile is saved
+  const active = getActiveProfile(state)
+  const activeRef = useRef(active)
+  if (!isSameProfile(activeRef.current, active)) activeRef.current = active
+  const activeProfile = activeRef.current
+
+  return {
+    profiles: state.profiles,
+    activeProfile,
+    setActiveProfile,
+    saveProfile,
+    deleteProfile,
+  }
+}
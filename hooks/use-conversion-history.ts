@@ -0,0 +1,74 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import {
+  deleteConversion,
+  getStorageEstimate,
+  isHistoryAvailable,
+  listConversions,
+  loadConversion,
+  saveConversion,
+  type HistoryEntry,
+  type HistoryRecord,
+  type StorageEstimate,
+} from "@/lib/conversion-history"
+
+// Tells every mounted history list to reload after a save or delete
+const HISTORY_EVENT = "conversionHistoryUpdate"
+
+export function useConversionHistory() {
+  const [entries, setEntries] = useState<HistoryEntry[]>([])
+  const [estimate, setEstimate] = useState<StorageEstimate | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const refresh = useCallback(async () => {
+    if (!isHistoryAvailable()) return
+    try {
+      const [list, storage] = await Promise.all([listConversions(), getStorageEstimate()])
+      setEntries(list)
+      setEstimate(storage)
+      setError(null)
+    } catch (err) {
+      console.warn("Could not read conversion history:", err)
+      setError(err instanceof Error ? err.message : "Could not read conversion history")
+    }
+  }, [])
+
+  useEffect(() => {
+    refresh()
+    window.addEventListener(HISTORY_EVENT, refresh)
+    return () => window.removeEventListener(HISTORY_EVENT, refresh)
+  }, [refresh])
+
+  const save = useCallback(async (record: Omit<HistoryRecord, "id" | "createdAt">) => {
+    if (!isHistoryAvailable()) return null
+    try {
+      const entry = await saveConversion(record)
+      window.dispatchEvent(new Event(HISTORY_EVENT))
+      return entry
+    } catch (err) {
+      // Usually the storage quota, the conversion itself still succeeded
+      console.warn("Could not save conversion to history:", err)
+      setError(err instanceof Error ? err.message : "Could not save conversion to history")
+      return null
+    }
+  }, [])
+
+  const remove = useCallback(async (id: string) => {
+    try {
+      await deleteConversion(id)
+      window.dispatchEvent(new Event(HISTORY_EVENT))
+    } catch (err) {
+      console.warn("Could not delete conversion from history:", err)
+      setError(err instanceof Error ? err.message : "Could not delete conversion from history")
+    }
+  }, [])
+
+  // For failures while preparing a record (thumbnail, metadata), before save() is reached
+  const reportError = useCallback((err: unknown) => {
+    console.warn("Could not save conversion to history:", err)
+    setError(err instanceof Error ? err.message : "Could not save conversion to history")
+  }, [])
+
+  return { entries, estimate, error, save, remove, load: loadConversion, reportError }
+}
@@ -0,0 +1,151 @@
+"use client"
+
+import { useCallback, useEffect, useRef, useState } from "react"
+import type { ApiProfile } from "@/lib/api-profiles"
+import { convert, type ConvertProgress, type ConvertResult } from "@/lib/vis3d-api"
+import { DEFAULT_PREPROCESS_OPTIONS, preprocessImage } from "@/lib/image-preprocess"
+
+export type QueueItemStatus = "queued" | "uploading" | "converting" | "done" | "failed" | "cancelled"
+
+export interface QueueItem {
+  id: string
+  file: File
+  // Object URL of the original image, revoked when the item is removed
+  thumbnailUrl: string
+  status: QueueItemStatus
+  progress: ConvertProgress | null
+  error?: string
+  result?: ConvertResult
+}
+
+export const QUEUE_CONCURRENCY_OPTIONS = [1, 2, 3, 4]
+
+const isActive = (item: QueueItem) => item.status === "uploading" || item.status === "converting"
+
+let nextItemId = 0
+
+// Converts a batch of images through the active profile, at most `concurrency` at a time
+export function useConversionQueue(profile: ApiProfile, onItemDone?: (file: File, result: ConvertResult) => void) {
+  const [items, setItems] = useState<QueueItem[]>([])
+  const [concurrency, setConcurrency] = useState(2)
+  const controllers = useRef(new Map<string, AbortController>())
+  // Read by the unmount cleanup, which only sees the first render's state
+  const itemsRef = useRef(items)
+  itemsRef.current = items
+  const onItemDoneRef = useRef(onItemDone)
+  onItemDoneRef.current = onItemDone
+
+  const updateItem = useCallback((id: string, updates: Partial<QueueItem>) => {
+    setItems((current) => current.map((item) => (item.id === id ? { ...item, ...updates } : item)))
+  }, [])
+
+  const runItem = useCallback(
+    async (item: QueueItem) => {
+      const controller = new AbortController()
+      controllers.current.set(item.id, controller)
+
+      // Batches get no preprocessing panel, each image goes out with the defaults a single upload starts with
+      let file: File
+      try {
+        file = (await preprocessImage(item.file, DEFAULT_PREPROCESS_OPTIONS)).file
+      } catch (error) {
+        controllers.current.delete(item.id)
+        updateItem(item.id, {
+          status: "failed",
+          error: error instanceof Error ? error.message : "Could not process image",
+        })
+        return
+      }
+
+      const result = await convert(profile, file, {
+        signal: controller.signal,
+        onProgress: (progress) =>
+          updateItem(item.id, {
+            progress,
+            // Retries go back to uploading, everything after the upload counts as converting
+            status: progress.phase === "uploading" || progress.phase === "retrying" ? "uploading" : "converting",
+          }),
+      })
+      controllers.current.delete(item.id)
+
+      if (result.ok) {
+        updateItem(item.id, { status: "done", progress: null, result: result.data })
+        onItemDoneRef.current?.(file, result.data)
+      } else {
+        updateItem(item.id, {
+          status: result.error.kind === "aborted" ? "cancelled" : "failed",
+          progress: null,
+          error: result.error.message,
+        })
+      }
+    },
+    [profile, updateItem],
+  )
+
+  // Starts queued items, oldest first, whenever a slot frees up
+  useEffect(() => {
+    const free = concurrency - items.filter(isActive).length
+    const next = items.filter((item) => item.status === "queued").slice(0, Math.max(0, free))
+    if (next.length === 0) return
+
+    setItems((current) =>
+      current.map((item) => (next.some((n) => n.id === item.id) ? { ...item, status: "uploading" } : item)),
+    )
+    next.forEach(runItem)
+  }, [items, concurrency, runItem])
+
+  // Reported to the system status by the owning component, together with its single conversions
+  const isConverting = items.some(isActive)
+
+  useEffect(
+    () => () => {
+      controllers.current.forEach((controller) => controller.abort())
+      itemsRef.current.forEach((item) => URL.revokeObjectURL(item.thumbnailUrl))
+    },
+    [],
+  )
+
+  const enqueue = useCallback((files: File[]) => {
+    const added = files.map<QueueItem>((file) => ({
+      id: `queue-${nextItemId++}`,
+      file,
+      thumbnailUrl: URL.createObjectURL(file),
+      status: "queued",
+      progress: null,
+    }))
+    setItems((current) => [...current, ...added])
+  }, [])
+
+  const cancel = useCallback((id: string) => {
+    controllers.current.get(id)?.abort()
+    // Queued items never got a controller
+    setItems((current) =>
+      current.map((item) => (item.id === id && item.status === "queued" ? { ...item, status: "cancelled" } : item)),
+    )
+  }, [])
+
+  const retry = useCallback(
+    (id: string) => updateItem(id, { status: "queued", error: undefined, progress: null }),
+    [updateItem],
+  )
+
+  const remove = useCallback((id: string) => {
+    controllers.current.get(id)?.abort()
+    setItems((current) => {
+      const item = current.find((i) => i.id === id)
+      if (item) URL.revokeObjectURL(item.thumbnailUrl)
+      return current.filter((i) => i.id !== id)
+    })
+  }, [])
+
+  // Drops failed and cancelled items, converted clouds stay in the gallery
+  const clearFailed = useCallback(() => {
+    setItems((current) => {
+      const kept = current.filter((item) => item.status !== "failed" && item.status !== "cancelled")
+      current.filter((item) => !kept.includes(item)).forEach((item) => URL.revokeObjectURL(item.thumbnailUrl))
+      return kept
+    })
+  }, [])
+
+  return { items, isConverting, concurrency, setConcurrency, enqueue, cancel, retry, remove, clearFailed }
+}
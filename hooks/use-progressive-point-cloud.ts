@@ -0,0 +1,93 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { getPointCount, type ThreeJSData } from "@/lib/point-cloud"
+import { buildLevelsOffThread } from "@/lib/point-cloud-worker"
+
+interface ProgressiveOptions {
+  // Points shown first for large clouds
+  pointBudget: number
+  // Step up to finer levels, and finally the full cloud, whenever the browser is idle
+  upgradeWhenIdle: boolean
+}
+
+const scheduleIdle = (callback: () => void) => {
+  if (typeof window.requestIdleCallback === "function") {
+    const handle = window.requestIdleCallback(callback, { timeout: 2000 })
+    return () => window.cancelIdleCallback(handle)
+  }
+  const handle = window.setTimeout(callback, 200)
+  return () => window.clearTimeout(handle)
+}
+
+interface ProgressiveView {
+  displayData: ThreeJSData | null
+  isPreview: boolean
+}
+
+// What to show before any level is built: nothing for a cloud over budget, so the full-size
+// geometry is never built on the first render
+const initialView = (data: ThreeJSData | null, pointBudget: number): ProgressiveView =>
+  data && getPointCount(data) > pointBudget
+    ? { displayData: null, isPreview: true }
+    : { displayData: data, isPreview: false }
+
+// Returns the cloud to draw: a voxel-decimated preview for large inputs that is refined while idle
+export function useProgressivePointCloud(data: ThreeJSData | null, { pointBudget, upgradeWhenIdle }: ProgressiveOptions) {
+  const [view, setView] = useState(() => initialView(data, pointBudget))
+  const [source, setSource] = useState({ data, pointBudget })
+
+  // Reset during render rather than in the effect, so a new cloud never renders for a frame with
+  // the previous cloud's levels
+  if (source.data !== data || source.pointBudget !== pointBudget) {
+    setSource({ data, pointBudget })
+    setView(initialView(data, pointBudget))
+  }
+
+  useEffect(() => {
+    if (!data || getPointCount(data) <= pointBudget) {
+      setView({ displayData: data, isPreview: false })
+      return
+    }
+
+    let cancelled = false
+    let cancelIdle: (() => void) | null = null
+    const total = getPointCount(data)
+    const budgets = upgradeWhenIdle ? [pointBudget, pointBudget * 4].filter((budget) => budget < total) : [pointBudget]
+
+    setView({ displayData: null, isPreview: true })
+
+    buildLevelsOffThread(data, budgets)
+      .then((levels) => {
+        if (cancelled) return
+
+        const steps: ThreeJSData[] = levels.map((level) => ({
+          vertices: level.vertices,
+          colors: level.colors,
+          // Decimated levels are no longer one point per pixel
+          metadata: { ...data.metadata, points: level.vertices.length / 3, width: level.vertices.length / 3, height: 1 },
+        }))
+        if (upgradeWhenIdle) steps.push(data)
+
+        let step = 0
+        const showStep = () => {
+          if (cancelled) return
+          setView({ displayData: steps[step], isPreview: steps[step] !== data })
+          step++
+          if (step < steps.length) cancelIdle = scheduleIdle(showStep)
+        }
+        showStep()
+      })
+      .catch((error) => {
+        console.error("Decimation failed, showing the full cloud:", error)
+        if (!cancelled) setView({ displayData: data, isPreview: false })
+      })
+
+    return () => {
+      cancelled = true
+      cancelIdle?.()
+    }
+  }, [data, pointBudget, upgradeWhenIdle])
+
+  return view
+}
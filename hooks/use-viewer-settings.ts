@@ -0,0 +1,41 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import {
+  DEFAULT_VIEWER_SETTINGS,
+  loadViewerSettings,
+  saveViewerSettings,
+  type ViewerSettings,
+} from "@/lib/viewer-settings"
+
+// Keeps every mounted viewer in sync when one of them changes a setting
+const SETTINGS_EVENT = "viewerSettingsUpdate"
+
+export function useViewerSettings() {
+  // Start from defaults so server and client render the same markup, then hydrate from storage
+  const [settings, setSettings] = useState<ViewerSettings>(DEFAULT_VIEWER_SETTINGS)
+
+  useEffect(() => {
+    setSettings(loadViewerSettings())
+
+    const handleUpdate = (event: Event) => {
+      setSettings((event as CustomEvent<ViewerSettings>).detail)
+    }
+
+    window.addEventListener(SETTINGS_EVENT, handleUpdate)
+    return () => window.removeEventListener(SETTINGS_EVENT, handleUpdate)
+  }, [])
+
+  const updateSettings = useCallback((updates: Partial<ViewerSettings>) => {
+    const next = { ...loadViewerSettings(), ...updates }
+    saveViewerSettings(next)
+    window.dispatchEvent(new CustomEvent(SETTINGS_EVENT, { detail: next }))
+  }, [])
+
+  const resetSettings = useCallback(() => {
+    saveViewerSettings(DEFAULT_VIEWER_SETTINGS)
+    window.dispatchEvent(new CustomEvent(SETTINGS_EVENT, { detail: DEFAULT_VIEWER_SETTINGS }))
+  }, [])
+
+  return { settings, updateSettings, resetSettings }
+}
@@ -0,0 +1,163 @@
+import { CONVERT_ENDPOINT, HEALTH_ENDPOINT, SAMPLE_ENDPOINT } from "./api-proxy"
+import { xhrFetch } from "./xhr-fetch"
+
+// Named backends the UI can talk to. The built-in profile goes through the same-origin proxy
+// routes; custom profiles call a backend's /api/v1/* directly, so that backend must allow CORS.
+export interface ApiProfile {
+  id: string
+  name: string
+  // Empty for the proxy profile
+  baseUrl: string
+  authHeaderName: string
+  authHeaderValue: string
+  timeoutMs: number
+  // Retries after 5xx responses and network errors, with exponential backoff
+  maxRetries: number
+}
+
+export interface ApiProfilesState {
+  profiles: ApiProfile[]
+  activeId: string
+}
+
+export type ApiEndpoint = "convert" | "sample" | "health"
+
+export const PROXY_PROFILE: ApiProfile = {
+  id: "proxy",
+  name: "Server proxy",
+  baseUrl: "",
+  authHeaderName: "",
+  authHeaderValue: "",
+  timeoutMs: 120_000,
+  maxRetries: 2,
+}
+
+export const DEFAULT_API_PROFILES: ApiProfilesState = {
+  profiles: [PROXY_PROFILE],
+  activeId: PROXY_PROFILE.id,
+}
+
+const STORAGE_KEY = "vis3d:api-profiles"
+
+const PROXY_ENDPOINTS: Record<ApiEndpoint, string> = {
+  convert: CONVERT_ENDPOINT,
+  sample: SAMPLE_ENDPOINT,
+  health: HEALTH_ENDPOINT,
+}
+
+export const createApiProfile = (overrides: Partial<ApiProfile> = {}): ApiProfile => ({
+  id: `profile-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`,
+  name: "New backend",
+  baseUrl: "https://",
+  authHeaderName: "Authorization",
+  authHeaderValue: "",
+  timeoutMs: 60_000,
+  maxRetries: 2,
+  ...overrides,
+})
+
+// Returns an error message, or null when the URL is usable as a profile base URL
+export const validateBaseUrl = (baseUrl: string) => {
+  try {
+    const url = new URL(baseUrl)
+    if (url.protocol !== "http:" && url.protocol !== "https:") return "Use an http:// or https:// URL"
+    return null
+  } catch {
+    return "Enter a full URL, including https://"
+  }
+}
+
+export const getActiveProfile = (state: ApiProfilesState) =>
+  state.profiles.find((profile) => profile.id === state.activeId) ?? PROXY_PROFILE
+
+export const getApiUrl = (profile: ApiProfile, endpoint: ApiEndpoint) =>
+  profile.baseUrl ? `${profile.baseUrl.replace(/\/+$/, "")}/api/v1/${endpoint}` : PROXY_ENDPOINTS[endpoint]
+
+export interface ProfileFetchOptions {
+  onUploadProgress?: (loaded: number, total: number) => void
+  onDownloadProgress?: (loaded: number, total: number) => void
+}
+
+const timeoutError = (profile: ApiProfile) => {
+  const error = new Error(`${profile.name} did not respond within ${Math.round(profile.timeoutMs / 1000)}s`)
+  error.name = "TimeoutError"
+  return error
+}
+
+// fetch() against a profile: resolves the URL, adds the auth header and enforces the timeout.
+// Asking for progress switches to XMLHttpRequest, since fetch() can't report upload progress.
+export const fetchFromProfile = async (
+  profile: ApiProfile,
+  endpoint: ApiEndpoint,
+  init: RequestInit = {},
+  options: ProfileFetchOptions = {},
+) => {
+  const headers = new Headers(init.headers)
+  if (profile.authHeaderName && profile.authHeaderValue) {
+    headers.set(profile.authHeaderName, profile.authHeaderValue)
+  }
+  const url = getApiUrl(profile, endpoint)
+
+  if (options.onUploadProgress || options.onDownloadProgress) {
+    try {
+      return await xhrFetch(url, {
+        method: init.method,
+        headers,
+        body: init.body as XMLHttpRequestBodyInit | null | undefined,
+        signal: init.signal,
+        timeoutMs: profile.timeoutMs,
+        ...options,
+      })
+    } catch (error) {
+      throw error instanceof Error && error.name === "TimeoutError" ? timeoutError(profile) : error
+    }
+  }
+
+  // The caller's signal cancels the request, the profile timeout aborts it separately
+  const controller = new AbortController()
+  let timedOut = false
+  const timer = setTimeout(() => {
+    timedOut = true
+    controller.abort()
+  }, profile.timeoutMs)
+  const handleAbort = () => controller.abort()
+  init.signal?.addEventListener("abort", handleAbort)
+  if (init.signal?.aborted) controller.abort()
+
+  try {
+    return await fetch(url, { ...init, headers, signal: controller.signal })
+  } catch (error) {
+    throw timedOut ? timeoutError(profile) : error
+  } finally {
+    clearTimeout(timer)
+    init.signal?.removeEventListener("abort", handleAbort)
+  }
+}
+
+export const loadApiProfiles = (): ApiProfilesState => {
+  if (typeof window === "undefined") return DEFAULT_API_PROFILES
+
+  try {
+    const stored = window.localStorage.getItem(STORAGE_KEY)
+    if (!stored) return DEFAULT_API_PROFILES
+
+    const parsed = JSON.parse(stored) as ApiProfilesState
+    // The proxy profile always exists and always reflects the current defaults
+    const custom = (parsed.profiles ?? [])
+      .filter((profile) => profile.id !== PROXY_PROFILE.id)
+      // Fill in fields added after the profile was saved
+      .map((profile) => ({ ...createApiProfile(), ...profile }))
+    return { profiles: [PROXY_PROFILE, ...custom], activeId: parsed.activeId ?? PROXY_PROFILE.id }
+  } catch (error) {
+    console.warn("Could not read API profiles:", error)
+    return DEFAULT_API_PROFILES
+  }
+}
+
+export const saveApiProfiles = (state: ApiProfilesState) => {
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(state))
+  } catch (error) {
+    console.warn("Could not save API profiles:", error)
+  }
+}
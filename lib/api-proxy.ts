@@ -0,0 +1,40 @@
+// Same-origin endpoints that proxy to the conversion backend (see app/api). Components call these
+// instead of the backend directly so CORS and backend URLs stay a server concern.
+export const CONVERT_ENDPOINT = "/api/convert"
+export const SAMPLE_ENDPOINT = "/api/sample"
+export const HEALTH_ENDPOINT = "/api/health"
+
+// The one image size limit, enforced by the uploader, the API client and the /api/convert route
+export const MAX_UPLOAD_BYTES = 10 * 1024 * 1024
+
+export type ApiErrorCode =
+  | "invalid_upload"
+  | "upload_too_large"
+  | "unsupported_media_type"
+  | "backend_unreachable"
+  | "backend_timeout"
+  | "backend_error"
+  | "invalid_backend_response"
+  | "not_found"
+  | "rate_limited"
+  | "quota_exceeded"
+
+// Every failure from the proxy routes has this shape. `error` stays a string so it also reads
+// as the backend's own `{ success: false, error }` responses.
+export interface ApiErrorEnvelope {
+  success: false
+  error: string
+  code: ApiErrorCode
+  status: number
+  details?: string
+}
+
+export const isApiErrorEnvelope = (value: unknown): value is ApiErrorEnvelope =>
+  typeof value === "object" &&
+  value !== null &&
+  (value as ApiErrorEnvelope).success === false &&
+  typeof (value as ApiErrorEnvelope).error === "string" &&
+  typeof (value as ApiErrorEnvelope).code === "string"
+
+export const formatBytes = (bytes: number) =>
+  bytes >= 1024 * 1024 ? `${(bytes / 1024 / 1024).toFixed(1)} MB` : `${Math.round(bytes / 1024)} KB`
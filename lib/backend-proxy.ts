@@ -0,0 +1,126 @@
+import { NextResponse } from "next/server"
+import type { ApiErrorCode, ApiErrorEnvelope } from "./api-proxy"
+
+// Server-only helpers shared by the app/api proxy routes
+
+export const BACKEND_BASE_URL = (process.env.VIS3D_API_BASE_URL ?? "https://vis3d.fly.dev").replace(/\/+$/, "")
+const BACKEND_TIMEOUT_MS = Number(process.env.VIS3D_API_TIMEOUT_MS) || 120_000
+
+export const apiError = (status: number, code: ApiErrorCode, error: string, details?: string) =>
+  NextResponse.json<ApiErrorEnvelope>({ success: false, error, code, status, details }, { status })
+
+// Buffers a request body, giving up as soon as it grows past maxBytes. Null when it is too large,
+// which also catches chunked uploads that never declare a content-length.
+export const readBodyWithLimit = async (request: Request, maxBytes: number): Promise<Uint8Array | null> => {
+  if (!request.body) return new Uint8Array()
+
+  const reader = request.body.getReader()
+  const chunks: Uint8Array[] = []
+  let total = 0
+  for (;;) {
+    const { done, value } = await reader.read()
+    if (done) break
+    total += value.byteLength
+    if (total > maxBytes) {
+      await reader.cancel()
+      return null
+    }
+    chunks.push(value)
+  }
+
+  const body = new Uint8Array(total)
+  let offset = 0
+  for (const chunk of chunks) {
+    body.set(chunk, offset)
+    offset += chunk.byteLength
+  }
+  return body
+}
+
+// Best-effort client key for rate limiting, the first hop of X-Forwarded-For behind a proxy
+export const clientKey = (request: Request) =>
+  request.headers.get("x-forwarded-for")?.split(",")[0].trim() || request.headers.get("x-real-ip") || "unknown"
+
+// Backend error fields aren't always strings: FastAPI validation errors put a list of
+// { loc, msg, type } objects in `detail`
+const formatErrorMessage = (value: unknown): string => {
+  if (typeof value === "string") return value
+  if (Array.isArray(value)) {
+    return value
+      .map((item) =>
+        typeof item === "object" && item !== null && typeof item.msg === "string" ? item.msg : formatErrorMessage(item),
+      )
+      .join("; ")
+  }
+  return JSON.stringify(value)
+}
+
+const isHTML = (text: string) => {
+  const head = text.substring(0, 200).trim().toLowerCase()
+  return head.startsWith("<!doctype") || head.startsWith("<html")
+}
+
+// AbortSignal.any exists in every Node version Next supports, but TypeScript's DOM lib here predates it
+const anySignal = (signals: AbortSignal[]) =>
+  (AbortSignal as typeof AbortSignal & { any(signals: AbortSignal[]): AbortSignal }).any(signals)
+
+// Calls the backend and relays its response, network failures and timeouts become error envelopes.
+// Pass the incoming request's signal in init so a client that goes away also stops the backend call.
+export const proxyToBackend = async (path: string, init: RequestInit = {}) => {
+  const timeout = AbortSignal.timeout(BACKEND_TIMEOUT_MS)
+  let upstream: Response
+  try {
+    upstream = await fetch(`${BACKEND_BASE_URL}${path}`, {
+      ...init,
+      cache: "no-store",
+      signal: init.signal ? anySignal([init.signal, timeout]) : timeout,
+    })
+  } catch (error) {
+    // Nobody is waiting for this response any more, 499 as nginx logs it
+    if (init.signal?.aborted) return new Response(null, { status: 499 })
+    if (error instanceof Error && (error.name === "TimeoutError" || error.name === "AbortError")) {
+      return apiError(504, "backend_timeout", `Backend did not respond within ${BACKEND_TIMEOUT_MS / 1000}s`)
+    }
+    return apiError(
+      502,
+      "backend_unreachable",
+      "Could not reach the conversion backend",
+      error instanceof Error ? error.message : String(error),
+    )
+  }
+
+  return forwardBackendResponse(upstream)
+}
+
+// Streams a successful backend response through, or normalizes a failed one into an envelope
+const forwardBackendResponse = async (upstream: Response) => {
+  const contentType = upstream.headers.get("content-type") ?? ""
+
+  if (!upstream.ok) {
+    const text = await upstream.text().catch(() => "")
+    if (isHTML(text)) {
+      return apiError(502, "invalid_backend_response", `Backend returned an HTML error page (status ${upstream.status})`)
+    }
+
+    let message = text || upstream.statusText
+    try {
+      const json = JSON.parse(text)
+      const reported = json.error || json.detail || json.message
+      if (reported) message = formatErrorMessage(reported)
+    } catch {
+      // Plain text error body
+    }
+    // Backend 5xx responses are a gateway problem from the client's point of view
+    const status = upstream.status >= 500 ? 502 : upstream.status
+    return apiError(status, "backend_error", message, `Backend status ${upstream.status}`)
+  }
+
+  if (contentType.includes("text/html")) {
+    return apiError(502, "invalid_backend_response", "Backend returned HTML instead of point cloud data")
+  }
+
+  return new Response(upstream.body, {
+    status: upstream.status,
+    headers: { "Content-Type": contentType || "application/json", Vary: "Accept" },
+  })
+}
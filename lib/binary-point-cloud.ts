@@ -0,0 +1,115 @@
+import { colorToByte, getPointCount, type ThreeJSData } from "./point-cloud"
+
+// Compact conversion result, requested with `Accept: application/x-vis3d-pointcloud`.
+//
+// Layout (little endian):
+//   0  char[4]  magic "V3DP"
+//   4  uint16   format version
+//   6  uint16   flags (bit 0: colors present)
+//   8  uint32   point count
+//  12  uint32   grid width
+//  16  uint32   grid height
+//  20  uint32   byte length of the JSON extras block (depth/original images, message)
+//  24  JSON extras, space-padded to a multiple of 4
+//      float32[count * 3] positions
+//      uint8[count * 3]   colors (when flagged)
+export const BINARY_POINT_CLOUD_MIME = "application/x-vis3d-pointcloud"
+
+const MAGIC = "V3DP"
+const VERSION = 1
+const HEADER_SIZE = 24
+const FLAG_COLORS = 1
+
+export interface BinaryExtras {
+  depth_image_base64?: string
+  original_image_base64?: string
+  message?: string
+}
+
+export const encodeBinaryPointCloud = (data: ThreeJSData, extras: BinaryExtras = {}) => {
+  const points = getPointCount(data)
+  const hasColors = data.colors.length >= points * 3
+
+  const extrasBytes = new TextEncoder().encode(JSON.stringify(extras))
+  const extrasLength = Math.ceil(extrasBytes.length / 4) * 4
+  const positionsOffset = HEADER_SIZE + extrasLength
+  const colorsOffset = positionsOffset + points * 12
+  const totalLength = colorsOffset + (hasColors ? points * 3 : 0)
+
+  const buffer = new ArrayBuffer(totalLength)
+  const view = new DataView(buffer)
+  const bytes = new Uint8Array(buffer)
+
+  for (let i = 0; i < 4; i++) view.setUint8(i, MAGIC.charCodeAt(i))
+  view.setUint16(4, VERSION, true)
+  view.setUint16(6, hasColors ? FLAG_COLORS : 0, true)
+  view.setUint32(8, points, true)
+  view.setUint32(12, data.metadata?.width ?? points, true)
+  view.setUint32(16, data.metadata?.height ?? 1, true)
+  view.setUint32(20, extrasLength, true)
+  bytes.set(extrasBytes, HEADER_SIZE)
+  bytes.fill(0x20, HEADER_SIZE + extrasBytes.length, positionsOffset)
+
+  // positionsOffset is 4-byte aligned, so positions can be written through a typed view
+  new Float32Array(buffer, positionsOffset, points * 3).set(data.vertices.slice(0, points * 3))
+  if (hasColors) {
+    for (let i = 0; i < points * 3; i++) {
+      bytes[colorsOffset + i] = colorToByte(data.colors[i])
+    }
+  }
+
+  return buffer
+}
+
+export const isBinaryPointCloud = (buffer: ArrayBuffer) => {
+  if (buffer.byteLength < HEADER_SIZE) return false
+  const bytes = new Uint8Array(buffer, 0, 4)
+  return String.fromCharCode(...bytes) === MAGIC
+}
+
+export const decodeBinaryPointCloud = (buffer: ArrayBuffer) => {
+  if (!isBinaryPointCloud(buffer)) {
+    throw new Error("Invalid binary point cloud: bad magic number")
+  }
+
+  const view = new DataView(buffer)
+  const version = view.getUint16(4, true)
+  if (version !== VERSION) {
+    throw new Error(`Unsupported binary point cloud version: ${version}`)
+  }
+
+  const flags = view.getUint16(6, true)
+  const points = view.getUint32(8, true)
+  const width = view.getUint32(12, true)
+  const height = view.getUint32(16, true)
+  const extrasLength = view.getUint32(20, true)
+  const hasColors = (flags & FLAG_COLORS) !== 0
+
+  const positionsOffset = HEADER_SIZE + extrasLength
+  const colorsOffset = positionsOffset + points * 12
+  const expectedLength = colorsOffset + (hasColors ? points * 3 : 0)
+  if (buffer.byteLength < expectedLength) {
+    throw new Error(`Truncated binary point cloud: expected ${expectedLength} bytes, got ${buffer.byteLength}`)
+  }
+
+  const extrasText = new TextDecoder().decode(new Uint8Array(buffer, HEADER_SIZE, extrasLength)).trim()
+  const extras: BinaryExtras = extrasText ? JSON.parse(extrasText) : {}
+
+  // Copy out of the response buffer so the result owns compact, transferable arrays
+  const vertices = new Float32Array(buffer.slice(positionsOffset, colorsOffset))
+  const colors = new Float32Array(points * 3)
+  if (hasColors) {
+    const colorBytes = new Uint8Array(buffer, colorsOffset, points * 3)
+    for (let i = 0; i < colorBytes.length; i++) colors[i] = colorBytes[i] / 255
+  } else {
+    colors.fill(1)
+  }
+
+  const threejsData: ThreeJSData = {
+    vertices,
+    colors,
+    metadata: { version, type: "points", points, width, height },
+  }
+
+  return { threejsData, extras }
+}
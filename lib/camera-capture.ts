@@ -0,0 +1,36 @@
+// Webcam frames handed from the detector to the 2D to 3D converter. The two components live in
+// separate cards, so the capture travels as a window event like the other cross-component updates.
+
+export const CAPTURE_EVENT = "cameraCaptureConvert"
+
+// Seconds to wait before grabbing the frame, 0 captures immediately
+export const CAPTURE_COUNTDOWN_OPTIONS = [0, 3, 5, 10] as const
+
+// Encodes the current video frame as PNG, without any overlay drawn on top of the video
+export const captureVideoFrame = async (video: HTMLVideoElement) => {
+  if (!video.videoWidth || !video.videoHeight) throw new Error("The camera has no frame to capture yet")
+
+  const canvas = document.createElement("canvas")
+  canvas.width = video.videoWidth
+  canvas.height = video.videoHeight
+  const context = canvas.getContext("2d")
+  if (!context) throw new Error("Canvas 2D context unavailable")
+  context.drawImage(video, 0, 0, canvas.width, canvas.height)
+
+  const blob = await new Promise<Blob>((resolve, reject) =>
+    canvas.toBlob((result) => (result ? resolve(result) : reject(new Error("Could not encode frame"))), "image/png"),
+  )
+  const timestamp = new Date().toISOString().replace(/[:.]/g, "-")
+  return new File([blob], `webcam-${timestamp}.png`, { type: "image/png" })
+}
+
+export const dispatchCapturedFrame = (file: File) => {
+  window.dispatchEvent(new CustomEvent<File>(CAPTURE_EVENT, { detail: file }))
+}
+
+// Subscribes to captured frames, returns the unsubscribe function
+export const onCapturedFrame = (listener: (file: File) => void) => {
+  const handleCapture = (event: Event) => listener((event as CustomEvent<File>).detail)
+  window.addEventListener(CAPTURE_EVENT, handleCapture)
+  return () => window.removeEventListener(CAPTURE_EVENT, handleCapture)
+}
@@ -0,0 +1,89 @@
+export type ColormapName = "turbo" | "viridis" | "inferno" | "grayscale"
+
+export const COLORMAPS: Array<{ name: ColormapName; label: string }> = [
+  { name: "turbo", label: "Turbo" },
+  { name: "viridis", label: "Viridis" },
+  { name: "inferno", label: "Inferno" },
+  { name: "grayscale", label: "Grayscale" },
+]
+
+type RGB = [number, number, number]
+
+// Polynomial fits of the matplotlib colormaps, t in [0, 1] -> rgb in [0, 1]
+const polynomial = (coefficients: RGB[]) => (t: number): RGB => {
+  const result: RGB = [0, 0, 0]
+  for (let channel = 0; channel < 3; channel++) {
+    let value = 0
+    for (let i = coefficients.length - 1; i >= 0; i--) {
+      value = value * t + coefficients[i][channel]
+    }
+    result[channel] = value
+  }
+  return result
+}
+
+const turbo = polynomial([
+  [0.13572138, 0.09140261, 0.1066733],
+  [4.6153926, 2.19418839, 12.64194608],
+  [-42.66032258, 4.84296658, -60.58204836],
+  [132.13108234, -14.18503333, 110.36276771],
+  [-152.94239396, 4.27729857, -89.90310912],
+  [59.28637943, 2.82956604, 27.34824973],
+])
+
+const viridis = polynomial([
+  [0.2777273272234177, 0.005407344544966578, 0.3340998053353061],
+  [0.1050930431085774, 1.404613529898575, 1.384590162594685],
+  [-0.3308618287255563, 0.214847559468213, 0.09509516302823659],
+  [-4.634230498983486, -5.799100973351585, -19.33244095627987],
+  [6.228269936347081, 14.17993336680509, 56.69055260068105],
+  [4.776384997670288, -13.74514537774601, -65.35303263337234],
+  [-5.435455855934631, 4.645852612178535, 26.3124352495832],
+])
+
+const inferno = polynomial([
+  [0.0002189403691192265, 0.001651004631001012, -0.01948089843709184],
+  [0.1065134194856116, 0.5639564367884091, 3.932712388889277],
+  [11.60249308247187, -3.972853965665698, -15.9423941062914],
+  [-41.70399613139459, 17.43639888205313, 44.35414519872813],
+  [77.162935699427, -33.40235894210092, -81.80730925738993],
+  [-71.31942824499214, 32.62606426397723, 73.20951985803202],
+  [25.13112622477341, -12.24266895238567, -23.07032500287172],
+])
+
+const grayscale = (t: number): RGB => [t, t, t]
+
+const COLORMAP_FUNCTIONS: Record<ColormapName, (t: number) => RGB> = { turbo, viridis, inferno, grayscale }
+
+export const sampleColormap = (name: ColormapName, t: number): RGB => {
+  const [r, g, b] = COLORMAP_FUNCTIONS[name](Math.max(0, Math.min(1, t)))
+  return [Math.max(0, Math.min(1, r)), Math.max(0, Math.min(1, g)), Math.max(0, Math.min(1, b))]
+}
+
+// Builds a 256-entry RGB lookup table so large images don't evaluate the polynomial per pixel
+export const buildColormapLUT = (name: ColormapName) => {
+  const lut = new Uint8ClampedArray(256 * 3)
+  for (let i = 0; i < 256; i++) {
+    const [r, g, b] = sampleColormap(name, i / 255)
+    lut[i * 3] = r * 255
+    lut[i * 3 + 1] = g * 255
+    lut[i * 3 + 2] = b * 255
+  }
+  return lut
+}
+
+// Colorizes a grayscale image (red channel is used as the intensity)
+export const applyColormap = (image: ImageData, name: ColormapName): ImageData => {
+  const lut = buildColormapLUT(name)
+  const output = new ImageData(image.width, image.height)
+
+  for (let i = 0; i < image.data.length; i += 4) {
+    const value = image.data[i] * 3
+    output.data[i] = lut[value]
+    output.data[i + 1] = lut[value + 1]
+    output.data[i + 2] = lut[value + 2]
+    output.data[i + 3] = 255
+  }
+
+  return output
+}
@@ -0,0 +1,127 @@
+import type { ThreeJSData } from "./point-cloud"
+
+// Past conversions kept in IndexedDB. Summaries and the (potentially huge) clouds live in
+// separate stores so the history list can load without reading every point.
+
+export interface HistoryBackend {
+  id: string
+  name: string
+  baseUrl: string
+}
+
+export interface HistoryEntry {
+  id: string
+  name: string
+  createdAt: number
+  points: number
+  width: number
+  height: number
+  backend: HistoryBackend
+  thumbnail: Blob | null
+}
+
+export interface HistoryCloud {
+  id: string
+  threejsData: ThreeJSData
+  depthImageBase64: string | null
+  originalImageBase64: string | null
+}
+
+export type HistoryRecord = HistoryEntry & Omit<HistoryCloud, "id">
+
+const DB_NAME = "vis3d-history"
+const DB_VERSION = 1
+const ENTRIES_STORE = "entries"
+const CLOUDS_STORE = "clouds"
+
+let dbPromise: Promise<IDBDatabase> | null = null
+
+const promisify = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+
+const transactionDone = (transaction: IDBTransaction) =>
+  new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve()
+    transaction.onerror = () => reject(transaction.error)
+    transaction.onabort = () => reject(transaction.error ?? new Error("Transaction aborted"))
+  })
+
+export const isHistoryAvailable = () => typeof indexedDB !== "undefined"
+
+const openDatabase = () => {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION)
+      request.onupgradeneeded = () => {
+        const db = request.result
+        if (!db.objectStoreNames.contains(ENTRIES_STORE)) {
+          db.createObjectStore(ENTRIES_STORE, { keyPath: "id" }).createIndex("createdAt", "createdAt")
+        }
+        if (!db.objectStoreNames.contains(CLOUDS_STORE)) {
+          db.createObjectStore(CLOUDS_STORE, { keyPath: "id" })
+        }
+      }
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => reject(request.error)
+    }).catch((error) => {
+      // Allow a later call to try again
+      dbPromise = null
+      throw error
+    })
+  }
+  return dbPromise
+}
+
+export const saveConversion = async (record: Omit<HistoryRecord, "id" | "createdAt">) => {
+  const db = await openDatabase()
+  const id = `conversion-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`
+  const { threejsData, depthImageBase64, originalImageBase64, ...summary } = record
+  const entry: HistoryEntry = { ...summary, id, createdAt: Date.now() }
+
+  const transaction = db.transaction([ENTRIES_STORE, CLOUDS_STORE], "readwrite")
+  transaction.objectStore(ENTRIES_STORE).put(entry)
+  transaction.objectStore(CLOUDS_STORE).put({ id, threejsData, depthImageBase64, originalImageBase64 } satisfies HistoryCloud)
+  await transactionDone(transaction)
+  return entry
+}
+
+// Newest first
+export const listConversions = async () => {
+  const db = await openDatabase()
+  const index = db.transaction(ENTRIES_STORE).objectStore(ENTRIES_STORE).index("createdAt")
+  const entries = await promisify(index.getAll() as IDBRequest<HistoryEntry[]>)
+  return entries.reverse()
+}
+
+export const loadConversion = async (id: string): Promise<HistoryRecord | null> => {
+  const db = await openDatabase()
+  const transaction = db.transaction([ENTRIES_STORE, CLOUDS_STORE])
+  const [entry, cloud] = await Promise.all([
+    promisify(transaction.objectStore(ENTRIES_STORE).get(id) as IDBRequest<HistoryEntry | undefined>),
+    promisify(transaction.objectStore(CLOUDS_STORE).get(id) as IDBRequest<HistoryCloud | undefined>),
+  ])
+  return entry && cloud ? { ...entry, ...cloud } : null
+}
+
+export const deleteConversion = async (id: string) => {
+  const db = await openDatabase()
+  const transaction = db.transaction([ENTRIES_STORE, CLOUDS_STORE], "readwrite")
+  transaction.objectStore(ENTRIES_STORE).delete(id)
+  transaction.objectStore(CLOUDS_STORE).delete(id)
+  await transactionDone(transaction)
+}
+
+export interface StorageEstimate {
+  usage: number
+  quota: number
+}
+
+// Origin-wide usage, IndexedDB doesn't report per-database sizes
+export const getStorageEstimate = async (): Promise<StorageEstimate | null> => {
+  if (typeof navigator === "undefined" || !navigator.storage?.estimate) return null
+  const { usage = 0, quota = 0 } = await navigator.storage.estimate()
+  return { usage, quota }
+}
@@ -0,0 +1,105 @@
+import type { ThreeJSData } from "./point-cloud"
+
+export interface ReprojectionOptions {
+  // Horizontal field of view in degrees, used when no focal length is given
+  fov: number
+  // Focal length in pixels of the depth image, overrides fov when set
+  focalLength?: number
+  // Depth range relative to the near plane: z = 1 + normalizedDepth * depthScale
+  depthScale: number
+  // Normalized (0-1) depth clipping planes, points outside keep their grid slot with a NaN position
+  near: number
+  far: number
+  // Sample every Nth pixel in both directions
+  stride: number
+  // Monocular depth models usually output inverse depth (brighter = closer)
+  invertDepth: boolean
+}
+
+export const DEFAULT_REPROJECTION_OPTIONS: ReprojectionOptions = {
+  fov: 60,
+  depthScale: 1,
+  near: 0,
+  far: 1,
+  stride: 2,
+  invertDepth: true,
+}
+
+export const toDataUrl = (base64: string) => (base64.startsWith("data:") ? base64 : `data:image/png;base64,${base64}`)
+
+const loadImage = (src: string) =>
+  new Promise<HTMLImageElement>((resolve, reject) => {
+    const image = new Image()
+    image.onload = () => resolve(image)
+    image.onerror = () => reject(new Error("Failed to decode image"))
+    image.src = src
+  })
+
+// Decodes a base64 image into pixels, optionally resampled to a given size
+export const decodeBase64Image = async (base64: string, width?: number, height?: number): Promise<ImageData> => {
+  const image = await loadImage(toDataUrl(base64))
+  const canvas = document.createElement("canvas")
+  canvas.width = width ?? image.naturalWidth
+  canvas.height = height ?? image.naturalHeight
+
+  const ctx = canvas.getContext("2d")
+  if (!ctx) {
+    throw new Error("Canvas 2D context is not available")
+  }
+
+  ctx.drawImage(image, 0, 0, canvas.width, canvas.height)
+  return ctx.getImageData(0, 0, canvas.width, canvas.height)
+}
+
+export const focalLengthFromFov = (fov: number, width: number) => width / 2 / Math.tan((fov * Math.PI) / 360)
+
+export const reprojectDepthMap = (
+  depth: ImageData,
+  color: ImageData | null,
+  options: ReprojectionOptions,
+): ThreeJSData => {
+  const { width, height } = depth
+  const stride = Math.max(1, Math.floor(options.stride))
+  const focal = options.focalLength && options.focalLength > 0 ? options.focalLength : focalLengthFromFov(options.fov, width)
+  const cx = width / 2
+  const cy = height / 2
+
+  const gridWidth = Math.ceil(width / stride)
+  const gridHeight = Math.ceil(height / stride)
+  const vertices: number[] = []
+  const colors: number[] = []
+
+  for (let v = 0; v < height; v += stride) {
+    for (let u = 0; u < width; u += stride) {
+      const pixel = (v * width + u) * 4
+      const value = depth.data[pixel] / 255
+      const normalized = options.invertDepth ? 1 - value : value
+
+      if (normalized < options.near || normalized > options.far) {
+        vertices.push(NaN, NaN, NaN)
+      } else {
+        // Pinhole back-projection, flipping image y (down) to world y (up) and looking down -z
+        const z = 1 + normalized * options.depthScale
+        vertices.push(((u - cx) * z) / focal, (-(v - cy) * z) / focal, -z)
+      }
+
+      if (color) {
+        colors.push(color.data[pixel] / 255, color.data[pixel + 1] / 255, color.data[pixel + 2] / 255)
+      } else {
+        colors.push(value, value, value)
+      }
+    }
+  }
+
+  return {
+    vertices,
+    colors,
+    metadata: {
+      version: 1,
+      type: "points",
+      points: gridWidth * gridHeight,
+      width: gridWidth,
+      height: gridHeight,
+    },
+  }
+}
@@ -0,0 +1,60 @@
+// Collects every file from a drop, descending into dropped folders. Falls back to the flat
+// file list where the entries API is unavailable.
+
+// Minimal shapes of the non-standard FileSystem entries API (webkitGetAsEntry)
+interface DroppedEntry {
+  isFile: boolean
+  isDirectory: boolean
+  name: string
+}
+
+interface DroppedFileEntry extends DroppedEntry {
+  file: (onSuccess: (file: File) => void, onError: (error: unknown) => void) => void
+}
+
+interface DroppedDirectoryEntry extends DroppedEntry {
+  createReader: () => {
+    readEntries: (onSuccess: (entries: DroppedEntry[]) => void, onError: (error: unknown) => void) => void
+  }
+}
+
+const readFile = (entry: DroppedFileEntry) => new Promise<File>((resolve, reject) => entry.file(resolve, reject))
+
+const readDirectory = async (entry: DroppedDirectoryEntry) => {
+  const reader = entry.createReader()
+  const entries: DroppedEntry[] = []
+  // readEntries returns the listing in chunks, an empty chunk means it's done
+  for (;;) {
+    const chunk = await new Promise<DroppedEntry[]>((resolve, reject) => reader.readEntries(resolve, reject))
+    if (chunk.length === 0) return entries
+    entries.push(...chunk)
+  }
+}
+
+const collectEntry = async (entry: DroppedEntry): Promise<File[]> => {
+  if (entry.isFile) return [await readFile(entry as DroppedFileEntry)]
+  if (!entry.isDirectory) return []
+
+  const children = await readDirectory(entry as DroppedDirectoryEntry)
+  const nested = await Promise.all(children.map(collectEntry))
+  return nested.flat()
+}
+
+export const collectDroppedFiles = async (dataTransfer: DataTransfer): Promise<File[]> => {
+  // Everything has to be taken synchronously, the DataTransfer is cleared once the drop handler yields
+  const topLevelFiles = Array.from(dataTransfer.files)
+  const entries = Array.from(dataTransfer.items ?? [])
+    .map((item) => (item.kind === "file" ? (item.webkitGetAsEntry?.() as DroppedEntry | null) : null))
+    .filter((entry): entry is DroppedEntry => entry !== null)
+
+  if (entries.length === 0) return topLevelFiles
+
+  try {
+    const files = (await Promise.all(entries.map(collectEntry))).flat()
+    // Folder listings come back in arbitrary order
+    return files.sort((a, b) => a.name.localeCompare(b.name, undefined, { numeric: true }))
+  } catch (error) {
+    console.warn("Could not read dropped folder, using the top-level files:", error)
+    return topLevelFiles
+  }
+}
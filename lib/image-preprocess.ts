@@ -0,0 +1,141 @@
+// Prepares an image before it is uploaded for conversion: applies the EXIF orientation, crops,
+// downscales and re-encodes (which drops EXIF and other metadata).
+
+import { MAX_UPLOAD_BYTES } from "./api-proxy"
+
+export const MAX_DIMENSION_OPTIONS = [null, 4096, 2048, 1024, 512] as const
+
+// Normalized (0-1) rectangle in the oriented image
+export interface CropRect {
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+export interface PreprocessOptions {
+  // Longest side of the output, null keeps the original size
+  maxDimension: number | null
+  crop: CropRect | null
+  stripMetadata: boolean
+}
+
+export interface PreprocessResult {
+  file: File
+  width: number
+  height: number
+  // False when the original file is sent untouched
+  reencoded: boolean
+  orientation: number
+}
+
+export const DEFAULT_PREPROCESS_OPTIONS: PreprocessOptions = {
+  maxDimension: 2048,
+  crop: null,
+  stripMetadata: true,
+}
+
+// Reads the EXIF orientation tag (1-8) from the start of a JPEG, 1 when there is none
+export const readExifOrientation = (buffer: ArrayBuffer) => {
+  const view = new DataView(buffer)
+  if (view.byteLength < 4 || view.getUint16(0) !== 0xffd8) return 1
+
+  let offset = 2
+  while (offset + 4 <= view.byteLength) {
+    const marker = view.getUint16(offset)
+    const length = view.getUint16(offset + 2)
+    // APP1 segment starting with "Exif\0\0"
+    if (marker === 0xffe1 && offset + 10 <= view.byteLength && view.getUint32(offset + 4) === 0x45786966) {
+      const tiff = offset + 10
+      if (tiff + 8 > view.byteLength) return 1
+      const little = view.getUint16(tiff) === 0x4949
+      const ifd = tiff + view.getUint32(tiff + 4, little)
+      if (ifd + 2 > view.byteLength) return 1
+      const entries = view.getUint16(ifd, little)
+      for (let i = 0; i < entries; i++) {
+        const entry = ifd + 2 + i * 12
+        if (entry + 12 > view.byteLength) return 1
+        if (view.getUint16(entry, little) === 0x0112) {
+          const orientation = view.getUint16(entry + 8, little)
+          return orientation >= 1 && orientation <= 8 ? orientation : 1
+        }
+      }
+      return 1
+    }
+    // Image data starts at SOS, no EXIF past this point
+    if ((marker & 0xff00) !== 0xff00 || marker === 0xffda) return 1
+    offset += 2 + length
+  }
+  return 1
+}
+
+export const checkImageSize = (file: File) =>
+  file.size > MAX_UPLOAD_BYTES
+    ? `${file.name} is ${(file.size / 1024 / 1024).toFixed(1)} MB, images are limited to ${MAX_UPLOAD_BYTES / 1024 / 1024} MB`
+    : null
+
+const OUTPUT_TYPES = ["image/jpeg", "image/png", "image/webp"]
+
+const canvasToBlob = (canvas: HTMLCanvasElement, type: string) =>
+  new Promise<Blob>((resolve, reject) =>
+    canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error("Could not encode image"))), type, 0.92),
+  )
+
+export const preprocessImage = async (file: File, options: PreprocessOptions): Promise<PreprocessResult> => {
+  const orientation = file.type === "image/jpeg" ? readExifOrientation(await file.slice(0, 128 * 1024).arrayBuffer()) : 1
+  // Decoded with the EXIF orientation applied, so width and height are as displayed
+  const bitmap = await createImageBitmap(file, { imageOrientation: "from-image" })
+
+  try {
+    const crop = options.crop ?? { x: 0, y: 0, width: 1, height: 1 }
+    const sourceX = Math.round(crop.x * bitmap.width)
+    const sourceY = Math.round(crop.y * bitmap.height)
+    const sourceWidth = Math.max(1, Math.round(crop.width * bitmap.width))
+    const sourceHeight = Math.max(1, Math.round(crop.height * bitmap.height))
+
+    const longest = Math.max(sourceWidth, sourceHeight)
+    const scale = options.maxDimension && longest > options.maxDimension ? options.maxDimension / longest : 1
+    const width = Math.max(1, Math.round(sourceWidth * scale))
+    const height = Math.max(1, Math.round(sourceHeight * scale))
+
+    // Without an edit to bake in, the original bytes (metadata included) can go as they are
+    const needsReencode = options.stripMetadata || !!options.crop || scale < 1 || orientation > 1
+    if (!needsReencode) {
+      return { file, width, height, reencoded: false, orientation }
+    }
+
+    const canvas = document.createElement("canvas")
+    canvas.width = width
+    canvas.height = height
+    const context = canvas.getContext("2d")
+    if (!context) throw new Error("Canvas 2D context unavailable")
+    context.imageSmoothingQuality = "high"
+    context.drawImage(bitmap, sourceX, sourceY, sourceWidth, sourceHeight, 0, 0, width, height)
+
+    const type = OUTPUT_TYPES.includes(file.type) ? file.type : "image/jpeg"
+    const blob = await canvasToBlob(canvas, type)
+    const extension = type.split("/")[1].replace("jpeg", "jpg")
+    const name = file.name.replace(/\.[^.]+$/, "") + `.${extension}`
+
+    return { file: new File([blob], name, { type }), width, height, reencoded: true, orientation }
+  } finally {
+    bitmap.close()
+  }
+}
+
+// Small JPEG preview, the longest side scaled down to `size` pixels
+export const createThumbnail = async (image: Blob, size = 160) => {
+  const bitmap = await createImageBitmap(image, { imageOrientation: "from-image" })
+  try {
+    const scale = Math.min(1, size / Math.max(bitmap.width, bitmap.height))
+    const canvas = document.createElement("canvas")
+    canvas.width = Math.max(1, Math.round(bitmap.width * scale))
+    canvas.height = Math.max(1, Math.round(bitmap.height * scale))
+    const context = canvas.getContext("2d")
+    if (!context) throw new Error("Canvas 2D context unavailable")
+    context.drawImage(bitmap, 0, 0, canvas.width, canvas.height)
+    return await canvasToBlob(canvas, "image/jpeg")
+  } finally {
+    bitmap.close()
+  }
+}
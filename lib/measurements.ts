@@ -0,0 +1,97 @@
+import type { ThreeJSData } from "./point-cloud"
+
+export type MeasurementTool = "distance" | "angle" | "annotation"
+
+export type Measurement =
+  | { id: string; type: "distance"; points: [number, number]; value: number }
+  | { id: string; type: "angle"; points: [number, number, number]; value: number }
+  | { id: string; type: "annotation"; points: [number]; label: string }
+
+// Number of picked points that completes a measurement for each tool
+export const POINTS_PER_TOOL: Record<MeasurementTool, number> = {
+  distance: 2,
+  angle: 3,
+  annotation: 1,
+}
+
+type Vec3 = [number, number, number]
+
+export const getPointPosition = (data: ThreeJSData, index: number): Vec3 => [
+  data.vertices[index * 3],
+  data.vertices[index * 3 + 1],
+  data.vertices[index * 3 + 2],
+]
+
+const subtract = (a: Vec3, b: Vec3): Vec3 => [a[0] - b[0], a[1] - b[1], a[2] - b[2]]
+
+const length = (v: Vec3) => Math.sqrt(v[0] * v[0] + v[1] * v[1] + v[2] * v[2])
+
+export const measureDistance = (a: Vec3, b: Vec3) => length(subtract(a, b))
+
+// Angle at vertex b formed by a-b-c, in degrees
+export const measureAngle = (a: Vec3, b: Vec3, c: Vec3) => {
+  const ba = subtract(a, b)
+  const bc = subtract(c, b)
+  const denominator = length(ba) * length(bc)
+  if (denominator === 0) return 0
+
+  const cosine = (ba[0] * bc[0] + ba[1] * bc[1] + ba[2] * bc[2]) / denominator
+  return (Math.acos(Math.max(-1, Math.min(1, cosine))) * 180) / Math.PI
+}
+
+let nextId = 0
+const createId = () => `m${Date.now().toString(36)}${(nextId++).toString(36)}`
+
+// Turns a completed set of picks into a measurement, measured in the cloud's own units
+export const createMeasurement = (
+  data: ThreeJSData,
+  tool: MeasurementTool,
+  picks: number[],
+  annotationCount = 0,
+): Measurement => {
+  const positions = picks.map((index) => getPointPosition(data, index))
+
+  switch (tool) {
+    case "distance":
+      return {
+        id: createId(),
+        type: "distance",
+        points: [picks[0], picks[1]],
+        value: measureDistance(positions[0], positions[1]),
+      }
+    case "angle":
+      return {
+        id: createId(),
+        type: "angle",
+        points: [picks[0], picks[1], picks[2]],
+        value: measureAngle(positions[0], positions[1], positions[2]),
+      }
+    case "annotation":
+      return { id: createId(), type: "annotation", points: [picks[0]], label: `Annotation ${annotationCount + 1}` }
+  }
+}
+
+export const describeMeasurement = (measurement: Measurement) => {
+  switch (measurement.type) {
+    case "distance":
+      return `${measurement.value.toFixed(3)} units`
+    case "angle":
+      return `${measurement.value.toFixed(1)}°`
+    case "annotation":
+      return measurement.label
+  }
+}
+
+export const measurementsToJSON = (data: ThreeJSData, measurements: Measurement[]) =>
+  JSON.stringify(
+    {
+      version: 1,
+      cloud: { points: data.metadata?.points ?? data.vertices.length / 3, metadata: data.metadata },
+      measurements: measurements.map((measurement) => ({
+        ...measurement,
+        positions: measurement.points.map((index) => getPointPosition(data, index)),
+      })),
+    },
+    null,
+    2,
+  )
@@ -0,0 +1,110 @@
+import { deflateSync } from "node:zlib"
+import type { ThreeJSData } from "./point-cloud"
+
+// Server-only helpers behind the /mock API routes. They fake a conversion result so the client
+// can be exercised without the real depth model.
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256)
+  for (let n = 0; n < 256; n++) {
+    let c = n
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+    table[n] = c >>> 0
+  }
+  return table
+})()
+
+const crc32 = (bytes: Uint8Array) => {
+  let crc = 0xffffffff
+  for (let i = 0; i < bytes.length; i++) crc = CRC_TABLE[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8)
+  return (crc ^ 0xffffffff) >>> 0
+}
+
+const pngChunk = (type: string, data: Uint8Array) => {
+  const chunk = Buffer.alloc(12 + data.length)
+  chunk.writeUInt32BE(data.length, 0)
+  chunk.write(type, 4, "ascii")
+  chunk.set(data, 8)
+  chunk.writeUInt32BE(crc32(chunk.subarray(4, 8 + data.length)), 8 + data.length)
+  return chunk
+}
+
+// Encodes 8-bit RGB pixels as an unfiltered PNG
+export const encodeRGBPng = (rgb: Uint8Array, width: number, height: number) => {
+  const header = Buffer.alloc(13)
+  header.writeUInt32BE(width, 0)
+  header.writeUInt32BE(height, 4)
+  header[8] = 8 // bit depth
+  header[9] = 2 // color type: truecolor
+
+  // Every scanline starts with filter type 0
+  const raw = Buffer.alloc((width * 3 + 1) * height)
+  for (let y = 0; y < height; y++) {
+    raw.set(rgb.subarray(y * width * 3, (y + 1) * width * 3), y * (width * 3 + 1) + 1)
+  }
+
+  return Buffer.concat([
+    Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    pngChunk("IHDR", header),
+    pngChunk("IDAT", deflateSync(raw)),
+    pngChunk("IEND", new Uint8Array(0)),
+  ])
+}
+
+export interface MockConversion {
+  threejsData: ThreeJSData
+  depthImageBase64: string
+  originalImageBase64: string
+}
+
+// Builds a grid-ordered cloud of a rippled surface. The seed (e.g. the upload size) shifts the
+// ripples so different uploads give visibly different results.
+export const createMockConversion = (seed: number, width = 160, height = 120): MockConversion => {
+  const points = width * height
+  const vertices = new Float32Array(points * 3)
+  const colors = new Float32Array(points * 3)
+  const depthPixels = new Uint8Array(points * 3)
+  const colorPixels = new Uint8Array(points * 3)
+  const phase = (seed % 997) / 997 * Math.PI * 2
+  const aspect = width / height
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = y * width + x
+      const u = x / (width - 1)
+      const v = y / (height - 1)
+      const dx = u - 0.5
+      const dy = v - 0.5
+      const radius = Math.sqrt(dx * dx + dy * dy)
+      // Normalized depth, 0 is near
+      const depth = 0.5 + 0.25 * Math.cos(radius * 18 - phase) * Math.exp(-radius * 2) + 0.2 * v
+
+      vertices[i * 3] = (u - 0.5) * aspect
+      vertices[i * 3 + 1] = 0.5 - v
+      vertices[i * 3 + 2] = -depth
+
+      const r = 0.3 + 0.7 * u
+      const g = 0.3 + 0.6 * (1 - radius)
+      const b = 0.4 + 0.6 * v
+      colors[i * 3] = r
+      colors[i * 3 + 1] = g
+      colors[i * 3 + 2] = b
+
+      const gray = Math.round((1 - Math.min(1, depth)) * 255)
+      depthPixels.fill(gray, i * 3, i * 3 + 3)
+      colorPixels[i * 3] = Math.round(Math.min(1, r) * 255)
+      colorPixels[i * 3 + 1] = Math.round(Math.min(1, g) * 255)
+      colorPixels[i * 3 + 2] = Math.round(Math.min(1, b) * 255)
+    }
+  }
+
+  return {
+    threejsData: {
+      vertices,
+      colors,
+      metadata: { version: 1, type: "points", points, width, height },
+    },
+    depthImageBase64: encodeRGBPng(depthPixels, width, height).toString("base64"),
+    originalImageBase64: encodeRGBPng(colorPixels, width, height).toString("base64"),
+  }
+}
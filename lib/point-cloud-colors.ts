@@ -0,0 +1,31 @@
+import { sampleColormap, type ColormapName } from "./colormaps"
+
+// Colors each point by its depth (z), near points at the warm end of the colormap
+export const depthGradientColors = (positions: ArrayLike<number>, colormap: ColormapName = "turbo") => {
+  let minZ = Infinity
+  let maxZ = -Infinity
+  for (let i = 2; i < positions.length; i += 3) {
+    if (Number.isNaN(positions[i])) continue
+    minZ = Math.min(minZ, positions[i])
+    maxZ = Math.max(maxZ, positions[i])
+  }
+
+  const range = maxZ - minZ || 1
+  const colors = new Float32Array(positions.length)
+  for (let i = 0; i < positions.length; i += 3) {
+    const [r, g, b] = sampleColormap(colormap, (positions[i + 2] - minZ) / range)
+    colors[i] = r
+    colors[i + 1] = g
+    colors[i + 2] = b
+  }
+  return colors
+}
+
+// Maps unit normals from [-1, 1] to [0, 1] per axis
+export const normalColors = (normals: ArrayLike<number>) => {
+  const colors = new Float32Array(normals.length)
+  for (let i = 0; i < normals.length; i++) {
+    colors[i] = normals[i] * 0.5 + 0.5
+  }
+  return colors
+}
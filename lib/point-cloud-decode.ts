@@ -0,0 +1,59 @@
+import { downsampleToBudget, type DecimatedCloud } from "./voxel-downsample"
+import { decodeBinaryPointCloud } from "./binary-point-cloud"
+
+// CPU-heavy steps of loading a cloud. They run inside the point cloud worker, and inline
+// when workers are unavailable, so they must not touch the DOM.
+
+type JsonObject = Record<string, unknown>
+
+const isJsonObject = (value: unknown): value is JsonObject => typeof value === "object" && value !== null
+
+// Finds threejs_data in both the convert ({ data: { threejs_data } }) and sample ({ threejs_data }) responses
+const findThreeJSData = (json: unknown): JsonObject | null => {
+  if (!isJsonObject(json)) return null
+  const found = (isJsonObject(json.data) ? json.data.threejs_data : undefined) ?? json.threejs_data
+  return isJsonObject(found) ? found : null
+}
+
+const isFiniteNumberArray = (values: unknown[]) =>
+  values.every((value) => typeof value === "number" && Number.isFinite(value))
+
+// Parses a conversion response and swaps the vertex/color number arrays for Float32Arrays. Arrays
+// holding anything but finite numbers are left as they are, so validation can point at the bad value
+// instead of it silently becoming NaN or 0.
+export const decodeConvertResponse = (text: string) => {
+  const json: unknown = JSON.parse(text)
+  const transfer: ArrayBuffer[] = []
+  const threejsData = findThreeJSData(json)
+
+  if (threejsData) {
+    for (const key of ["vertices", "colors"] as const) {
+      const values = threejsData[key]
+      if (Array.isArray(values) && isFiniteNumberArray(values)) {
+        const typed = new Float32Array(values)
+        threejsData[key] = typed
+        transfer.push(typed.buffer)
+      }
+    }
+  }
+
+  return { json, transfer }
+}
+
+// Decodes a binary conversion result into the same shape as the JSON APIResponse
+export const decodeBinaryResponse = (buffer: ArrayBuffer) => {
+  const { threejsData, extras } = decodeBinaryPointCloud(buffer)
+  const { message, ...images } = extras
+  const json = { success: true, message, data: { threejs_data: threejsData, ...images } }
+  const transfer = [(threejsData.vertices as Float32Array).buffer, (threejsData.colors as Float32Array).buffer]
+  return { json, transfer }
+}
+
+// Builds progressively finer decimated copies of a cloud, one per budget (coarsest first)
+export const buildLevelsOfDetail = (vertices: ArrayLike<number>, colors: ArrayLike<number>, budgets: number[]) => {
+  const levels: DecimatedCloud[] = [...budgets]
+    .sort((a, b) => a - b)
+    .map((budget) => downsampleToBudget(vertices, colors, budget))
+  const transfer = levels.flatMap((level) => [level.vertices.buffer, level.colors.buffer])
+  return { levels, transfer }
+}
@@ -0,0 +1,246 @@
+import { colorToByte, compactValidPoints, countValidPoints, getPointCount, type ThreeJSData } from "./point-cloud"
+
+export type PointCloudExportFormat = "ply-ascii" | "ply-binary" | "pcd" | "xyz" | "gltf" | "glb"
+
+export const EXPORT_FORMATS: Array<{ format: PointCloudExportFormat; label: string; extension: string }> = [
+  { format: "ply-ascii", label: "PLY (ASCII)", extension: "ply" },
+  { format: "ply-binary", label: "PLY (Binary)", extension: "ply" },
+  { format: "pcd", label: "PCD", extension: "pcd" },
+  { format: "xyz", label: "XYZRGB", extension: "xyz" },
+  { format: "gltf", label: "glTF", extension: "gltf" },
+  { format: "glb", label: "GLB", extension: "glb" },
+]
+
+const plyHeader = (format: string, points: number) =>
+  [
+    "ply",
+    `format ${format} 1.0`,
+    "comment Generated by Vis3D",
+    `element vertex ${points}`,
+    "property float x",
+    "property float y",
+    "property float z",
+    "property uchar red",
+    "property uchar green",
+    "property uchar blue",
+    "end_header",
+    "",
+  ].join("\n")
+
+export const toAsciiPLY = (data: ThreeJSData) => {
+  const points = getPointCount(data)
+  const lines = new Array<string>(points)
+
+  for (let i = 0; i < points; i++) {
+    const v = i * 3
+    lines[i] =
+      `${data.vertices[v]} ${data.vertices[v + 1]} ${data.vertices[v + 2]} ` +
+      `${colorToByte(data.colors[v])} ${colorToByte(data.colors[v + 1])} ${colorToByte(data.colors[v + 2])}`
+  }
+
+  return plyHeader("ascii", points) + lines.join("\n") + "\n"
+}
+
+export const toBinaryPLY = (data: ThreeJSData) => {
+  const points = getPointCount(data)
+  const header = new TextEncoder().encode(plyHeader("binary_little_endian", points))
+
+  // 3 x float32 position + 3 x uint8 color per vertex
+  const stride = 15
+  const buffer = new ArrayBuffer(header.length + points * stride)
+  new Uint8Array(buffer).set(header, 0)
+  const view = new DataView(buffer, header.length)
+
+  for (let i = 0; i < points; i++) {
+    const v = i * 3
+    const offset = i * stride
+    view.setFloat32(offset, data.vertices[v], true)
+    view.setFloat32(offset + 4, data.vertices[v + 1], true)
+    view.setFloat32(offset + 8, data.vertices[v + 2], true)
+    view.setUint8(offset + 12, colorToByte(data.colors[v]))
+    view.setUint8(offset + 13, colorToByte(data.colors[v + 1]))
+    view.setUint8(offset + 14, colorToByte(data.colors[v + 2]))
+  }
+
+  return buffer
+}
+
+export const toPCD = (data: ThreeJSData) => {
+  const points = getPointCount(data)
+
+  // Keep the cloud organized when it still matches the source image grid
+  const width = data.metadata?.width
+  const height = data.metadata?.height
+  const isOrganized = !!width && !!height && width * height === points
+
+  const header = [
+    "# .PCD v0.7 - Point Cloud Data file format",
+    "VERSION 0.7",
+    "FIELDS x y z rgb",
+    "SIZE 4 4 4 4",
+    "TYPE F F F U",
+    "COUNT 1 1 1 1",
+    `WIDTH ${isOrganized ? width : points}`,
+    `HEIGHT ${isOrganized ? height : 1}`,
+    "VIEWPOINT 0 0 0 1 0 0 0",
+    `POINTS ${points}`,
+    "DATA ascii",
+    "",
+  ].join("\n")
+
+  // Organized PCD files mark missing samples with nan, which is what NaN positions mean here
+  const coordinate = (value: number) => (Number.isNaN(value) ? "nan" : value)
+  const lines = new Array<string>(points)
+  for (let i = 0; i < points; i++) {
+    const v = i * 3
+    const r = colorToByte(data.colors[v])
+    const g = colorToByte(data.colors[v + 1])
+    const b = colorToByte(data.colors[v + 2])
+    const rgb = ((r << 16) | (g << 8) | b) >>> 0
+    lines[i] =
+      `${coordinate(data.vertices[v])} ${coordinate(data.vertices[v + 1])} ${coordinate(data.vertices[v + 2])} ${rgb}`
+  }
+
+  return header + lines.join("\n") + "\n"
+}
+
+export const toXYZ = (data: ThreeJSData) => {
+  const points = getPointCount(data)
+  const lines = new Array<string>(points)
+
+  for (let i = 0; i < points; i++) {
+    const v = i * 3
+    lines[i] =
+      `${data.vertices[v]} ${data.vertices[v + 1]} ${data.vertices[v + 2]} ` +
+      `${colorToByte(data.colors[v])} ${colorToByte(data.colors[v + 1])} ${colorToByte(data.colors[v + 2])}`
+  }
+
+  return lines.join("\n") + "\n"
+}
+
+// Builds a single POINTS primitive with float positions and colors packed into one buffer
+const buildGLTF = (data: ThreeJSData) => {
+  const points = getPointCount(data)
+  const positions = new Float32Array(points * 3)
+  const colors = new Float32Array(points * 3)
+  const min = [Infinity, Infinity, Infinity]
+  const max = [-Infinity, -Infinity, -Infinity]
+
+  for (let i = 0; i < points * 3; i++) {
+    const axis = i % 3
+    positions[i] = data.vertices[i]
+    colors[i] = Math.max(0, Math.min(1, data.colors[i] ?? 1))
+    min[axis] = Math.min(min[axis], positions[i])
+    max[axis] = Math.max(max[axis], positions[i])
+  }
+
+  const binary = new Uint8Array(positions.byteLength + colors.byteLength)
+  binary.set(new Uint8Array(positions.buffer), 0)
+  binary.set(new Uint8Array(colors.buffer), positions.byteLength)
+
+  const json = {
+    asset: { version: "2.0", generator: "Vis3D" },
+    scene: 0,
+    scenes: [{ nodes: [0] }],
+    nodes: [{ mesh: 0, name: "PointCloud" }],
+    meshes: [{ primitives: [{ attributes: { POSITION: 0, COLOR_0: 1 }, mode: 0 }] }],
+    buffers: [{ byteLength: binary.byteLength } as { byteLength: number; uri?: string }],
+    bufferViews: [
+      { buffer: 0, byteOffset: 0, byteLength: positions.byteLength, target: 34962 },
+      { buffer: 0, byteOffset: positions.byteLength, byteLength: colors.byteLength, target: 34962 },
+    ],
+    accessors: [
+      { bufferView: 0, componentType: 5126, count: points, type: "VEC3", min, max },
+      { bufferView: 1, componentType: 5126, count: points, type: "VEC3" },
+    ],
+  }
+
+  return { json, binary }
+}
+
+const bytesToBase64 = (bytes: Uint8Array) => {
+  let binary = ""
+  const chunkSize = 0x8000
+  for (let i = 0; i < bytes.length; i += chunkSize) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + chunkSize))
+  }
+  return btoa(binary)
+}
+
+export const toGLTF = (data: ThreeJSData) => {
+  const { json, binary } = buildGLTF(data)
+  json.buffers[0].uri = `data:application/octet-stream;base64,${bytesToBase64(binary)}`
+  return JSON.stringify(json)
+}
+
+export const toGLB = (data: ThreeJSData) => {
+  const { json, binary } = buildGLTF(data)
+
+  // Chunks must be 4-byte aligned: JSON is padded with spaces, BIN with zeros
+  const jsonBytes = new TextEncoder().encode(JSON.stringify(json))
+  const jsonLength = Math.ceil(jsonBytes.length / 4) * 4
+  const binLength = Math.ceil(binary.length / 4) * 4
+  const totalLength = 12 + 8 + jsonLength + 8 + binLength
+
+  const buffer = new ArrayBuffer(totalLength)
+  const view = new DataView(buffer)
+  const bytes = new Uint8Array(buffer)
+
+  view.setUint32(0, 0x46546c67, true) // "glTF"
+  view.setUint32(4, 2, true)
+  view.setUint32(8, totalLength, true)
+
+  view.setUint32(12, jsonLength, true)
+  view.setUint32(16, 0x4e4f534a, true) // "JSON"
+  bytes.set(jsonBytes, 20)
+  bytes.fill(0x20, 20 + jsonBytes.length, 20 + jsonLength)
+
+  const binOffset = 20 + jsonLength
+  view.setUint32(binOffset, binLength, true)
+  view.setUint32(binOffset + 4, 0x004e4942, true) // "BIN"
+  bytes.set(binary, binOffset + 8)
+
+  return buffer
+}
+
+// Drops missing grid samples (NaN positions) for the formats that can't keep a grid layout
+const validPointsOnly = (data: ThreeJSData): ThreeJSData => {
+  const points = countValidPoints(data.vertices)
+  if (points === getPointCount(data)) return data
+  const { vertices, colors } = compactValidPoints(data.vertices, data.colors)
+  return { vertices, colors, metadata: { ...data.metadata, points, width: points, height: 1 } }
+}
+
+export const exportPointCloud = (cloud: ThreeJSData, format: PointCloudExportFormat): Blob => {
+  const data = format === "pcd" ? cloud : validPointsOnly(cloud)
+  switch (format) {
+    case "ply-ascii":
+      return new Blob([toAsciiPLY(data)], { type: "text/plain" })
+    case "ply-binary":
+      return new Blob([toBinaryPLY(data)], { type: "application/octet-stream" })
+    case "pcd":
+      return new Blob([toPCD(data)], { type: "text/plain" })
+    case "xyz":
+      return new Blob([toXYZ(data)], { type: "text/plain" })
+    case "gltf":
+      return new Blob([toGLTF(data)], { type: "model/gltf+json" })
+    case "glb":
+      return new Blob([toGLB(data)], { type: "model/gltf-binary" })
+  }
+}
+
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement("a")
+  link.href = url
+  link.download = filename
+  document.body.appendChild(link)
+  link.click()
+  link.remove()
+  setTimeout(() => URL.revokeObjectURL(url), 0)
+}
+
+export const downloadPointCloud = (data: ThreeJSData, format: PointCloudExportFormat, basename = "point-cloud") => {
+  const extension = EXPORT_FORMATS.find((entry) => entry.format === format)?.extension ?? format
+  downloadBlob(exportPointCloud(data, format), `${basename}.${extension}`)
+}
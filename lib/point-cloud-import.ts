@@ -0,0 +1,415 @@
+import type { ThreeJSData } from "./point-cloud"
+
+export const POINT_CLOUD_EXTENSIONS = ["ply", "pcd", "xyz", "obj"] as const
+
+export type PointCloudFileFormat = (typeof POINT_CLOUD_EXTENSIONS)[number]
+
+export const getPointCloudFormat = (filename: string): PointCloudFileFormat | null => {
+  const extension = filename.split(".").pop()?.toLowerCase()
+  return POINT_CLOUD_EXTENSIONS.find((format) => format === extension) ?? null
+}
+
+export const isPointCloudFile = (file: File) => getPointCloudFormat(file.name) !== null
+
+const buildThreeJSData = (vertices: number[], colors: number[], width?: number, height?: number): ThreeJSData => {
+  const points = Math.floor(vertices.length / 3)
+  if (points === 0) {
+    throw new Error("No points found in file")
+  }
+
+  // Files without color information are rendered white
+  const filledColors = colors.length === vertices.length ? colors : new Array<number>(vertices.length).fill(1)
+
+  return {
+    vertices,
+    colors: filledColors,
+    metadata: {
+      version: 1,
+      type: "points",
+      points,
+      width: width && height && width * height === points ? width : points,
+      height: width && height && width * height === points ? height : 1,
+    },
+  }
+}
+
+// Some tools write 0-255 colors into plain text formats, others 0-1
+const normalizeColors = (colors: number[]) => {
+  const isByteRange = colors.some((value) => value > 1)
+  return isByteRange ? colors.map((value) => value / 255) : colors
+}
+
+const splitLine = (line: string) => line.trim().split(/[\s,]+/)
+
+export const parseXYZ = (text: string): ThreeJSData => {
+  const vertices: number[] = []
+  const colors: number[] = []
+
+  for (const line of text.split(/\r?\n/)) {
+    if (!line.trim() || line.startsWith("#") || line.startsWith("//")) continue
+
+    const values = splitLine(line).map(Number)
+    if (values.length < 3 || values.slice(0, 3).some(Number.isNaN)) continue
+
+    vertices.push(values[0], values[1], values[2])
+    if (values.length >= 6) {
+      colors.push(values[3], values[4], values[5])
+    }
+  }
+
+  return buildThreeJSData(vertices, normalizeColors(colors))
+}
+
+export const parseOBJ = (text: string): ThreeJSData => {
+  const vertices: number[] = []
+  const colors: number[] = []
+
+  for (const line of text.split(/\r?\n/)) {
+    if (!line.startsWith("v ")) continue
+
+    const values = splitLine(line.slice(2)).map(Number)
+    if (values.length < 3 || values.slice(0, 3).some(Number.isNaN)) continue
+
+    vertices.push(values[0], values[1], values[2])
+    // Vertex colors are a common OBJ extension: "v x y z r g b"
+    if (values.length >= 6) {
+      colors.push(values[3], values[4], values[5])
+    }
+  }
+
+  return buildThreeJSData(vertices, normalizeColors(colors))
+}
+
+type ScalarType = "int8" | "uint8" | "int16" | "uint16" | "int32" | "uint32" | "float32" | "float64"
+
+const PLY_TYPES: Record<string, ScalarType> = {
+  char: "int8",
+  int8: "int8",
+  uchar: "uint8",
+  uint8: "uint8",
+  short: "int16",
+  int16: "int16",
+  ushort: "uint16",
+  uint16: "uint16",
+  int: "int32",
+  int32: "int32",
+  uint: "uint32",
+  uint32: "uint32",
+  float: "float32",
+  float32: "float32",
+  double: "float64",
+  float64: "float64",
+}
+
+const SCALAR_SIZES: Record<ScalarType, number> = {
+  int8: 1,
+  uint8: 1,
+  int16: 2,
+  uint16: 2,
+  int32: 4,
+  uint32: 4,
+  float32: 4,
+  float64: 8,
+}
+
+const readScalar = (view: DataView, offset: number, type: ScalarType, littleEndian: boolean) => {
+  switch (type) {
+    case "int8":
+      return view.getInt8(offset)
+    case "uint8":
+      return view.getUint8(offset)
+    case "int16":
+      return view.getInt16(offset, littleEndian)
+    case "uint16":
+      return view.getUint16(offset, littleEndian)
+    case "int32":
+      return view.getInt32(offset, littleEndian)
+    case "uint32":
+      return view.getUint32(offset, littleEndian)
+    case "float32":
+      return view.getFloat32(offset, littleEndian)
+    case "float64":
+      return view.getFloat64(offset, littleEndian)
+  }
+}
+
+interface PLYProperty {
+  name: string
+  type: ScalarType
+  // Set for "property list <countType> <type> <name>"
+  countType?: ScalarType
+}
+
+interface PLYElement {
+  name: string
+  count: number
+  properties: PLYProperty[]
+}
+
+const findHeaderEnd = (bytes: Uint8Array, marker: string) => {
+  const markerBytes = new TextEncoder().encode(marker)
+  const searchLimit = Math.min(bytes.length, 64 * 1024)
+
+  outer: for (let i = 0; i <= searchLimit - markerBytes.length; i++) {
+    for (let j = 0; j < markerBytes.length; j++) {
+      if (bytes[i + j] !== markerBytes[j]) continue outer
+    }
+    // Skip to the end of the marker line
+    let end = i + markerBytes.length
+    while (end < bytes.length && bytes[end] !== 0x0a) end++
+    return end + 1
+  }
+
+  return -1
+}
+
+const COLOR_NAMES = {
+  r: ["red", "r", "diffuse_red"],
+  g: ["green", "g", "diffuse_green"],
+  b: ["blue", "b", "diffuse_blue"],
+}
+
+// Integer color channels are scaled by their type's range, float channels are assumed 0-1
+const colorScale = (type: ScalarType) => {
+  if (type === "uint8" || type === "int8") return 1 / 255
+  if (type === "uint16" || type === "int16") return 1 / 65535
+  return 1
+}
+
+export const parsePLY = (buffer: ArrayBuffer): ThreeJSData => {
+  const bytes = new Uint8Array(buffer)
+  const headerEnd = findHeaderEnd(bytes, "end_header")
+  if (headerEnd < 0) {
+    throw new Error("Invalid PLY file: missing end_header")
+  }
+
+  const headerLines = new TextDecoder().decode(bytes.subarray(0, headerEnd)).split(/\r?\n/)
+  if (headerLines[0].trim() !== "ply") {
+    throw new Error("Invalid PLY file: missing magic number")
+  }
+
+  let format = "ascii"
+  const elements: PLYElement[] = []
+
+  for (const rawLine of headerLines) {
+    const parts = rawLine.trim().split(/\s+/)
+    if (parts[0] === "format") {
+      format = parts[1]
+    } else if (parts[0] === "element") {
+      elements.push({ name: parts[1], count: parseInt(parts[2], 10), properties: [] })
+    } else if (parts[0] === "property" && elements.length > 0) {
+      const element = elements[elements.length - 1]
+      if (parts[1] === "list") {
+        element.properties.push({ name: parts[4], countType: PLY_TYPES[parts[2]], type: PLY_TYPES[parts[3]] })
+      } else {
+        element.properties.push({ name: parts[2], type: PLY_TYPES[parts[1]] })
+      }
+    }
+  }
+
+  const vertexElement = elements.find((element) => element.name === "vertex")
+  if (!vertexElement) {
+    throw new Error("Invalid PLY file: no vertex element")
+  }
+
+  const unknownProperty = vertexElement.properties.find((property) => !property.type)
+  if (unknownProperty) {
+    throw new Error(`Unsupported PLY property type for "${unknownProperty.name}"`)
+  }
+
+  const propertyIndex = (names: string[]) => vertexElement.properties.findIndex((p) => names.includes(p.name))
+  const xIndex = propertyIndex(["x"])
+  const yIndex = propertyIndex(["y"])
+  const zIndex = propertyIndex(["z"])
+  const rIndex = propertyIndex(COLOR_NAMES.r)
+  const gIndex = propertyIndex(COLOR_NAMES.g)
+  const bIndex = propertyIndex(COLOR_NAMES.b)
+  const hasColor = rIndex >= 0 && gIndex >= 0 && bIndex >= 0
+
+  if (xIndex < 0 || yIndex < 0 || zIndex < 0) {
+    throw new Error("Invalid PLY file: vertex element has no x/y/z properties")
+  }
+
+  const vertices: number[] = []
+  const colors: number[] = []
+  const pushVertex = (values: number[]) => {
+    vertices.push(values[xIndex], values[yIndex], values[zIndex])
+    if (hasColor) {
+      colors.push(
+        values[rIndex] * colorScale(vertexElement.properties[rIndex].type),
+        values[gIndex] * colorScale(vertexElement.properties[gIndex].type),
+        values[bIndex] * colorScale(vertexElement.properties[bIndex].type),
+      )
+    }
+  }
+
+  if (format === "ascii") {
+    const lines = new TextDecoder().decode(bytes.subarray(headerEnd)).split(/\r?\n/)
+    let lineIndex = 0
+
+    for (const element of elements) {
+      if (element !== vertexElement) {
+        lineIndex += element.count
+        continue
+      }
+      for (let i = 0; i < element.count; i++) {
+        const line = lines[lineIndex++]
+        if (line === undefined) break
+        pushVertex(line.trim().split(/\s+/).map(Number))
+      }
+      break
+    }
+  } else if (format === "binary_little_endian" || format === "binary_big_endian") {
+    const littleEndian = format === "binary_little_endian"
+    const view = new DataView(buffer)
+    let offset = headerEnd
+
+    for (const element of elements) {
+      const isVertex = element === vertexElement
+      for (let i = 0; i < element.count; i++) {
+        const values: number[] = []
+        for (const property of element.properties) {
+          if (property.countType) {
+            // Lists only appear in faces/edges, skip over their entries
+            const count = readScalar(view, offset, property.countType, littleEndian)
+            offset += SCALAR_SIZES[property.countType] + count * SCALAR_SIZES[property.type]
+            values.push(NaN)
+          } else {
+            values.push(readScalar(view, offset, property.type, littleEndian))
+            offset += SCALAR_SIZES[property.type]
+          }
+        }
+        if (isVertex) pushVertex(values)
+      }
+      if (isVertex) break
+    }
+  } else {
+    throw new Error(`Unsupported PLY format: ${format}`)
+  }
+
+  return buildThreeJSData(vertices, colors)
+}
+
+const PCD_TYPES: Record<string, ScalarType> = {
+  I1: "int8",
+  U1: "uint8",
+  I2: "int16",
+  U2: "uint16",
+  I4: "int32",
+  U4: "uint32",
+  F4: "float32",
+  F8: "float64",
+}
+
+// PCL packs rgb as three bytes inside a single 32-bit field
+const unpackRGB = (packed: number, colors: number[]) => {
+  colors.push(((packed >> 16) & 0xff) / 255, ((packed >> 8) & 0xff) / 255, (packed & 0xff) / 255)
+}
+
+const floatBitsToUint = (value: number) => {
+  const view = new DataView(new ArrayBuffer(4))
+  view.setFloat32(0, value)
+  return view.getUint32(0)
+}
+
+export const parsePCD = (buffer: ArrayBuffer): ThreeJSData => {
+  const bytes = new Uint8Array(buffer)
+  const headerEnd = findHeaderEnd(bytes, "DATA")
+  if (headerEnd < 0) {
+    throw new Error("Invalid PCD file: missing DATA line")
+  }
+
+  const header: Record<string, string[]> = {}
+  for (const line of new TextDecoder().decode(bytes.subarray(0, headerEnd)).split(/\r?\n/)) {
+    if (!line.trim() || line.startsWith("#")) continue
+    const [key, ...values] = line.trim().split(/\s+/)
+    header[key.toUpperCase()] = values
+  }
+
+  const fields = header.FIELDS ?? []
+  const sizes = (header.SIZE ?? []).map(Number)
+  const types = header.TYPE ?? []
+  const counts = (header.COUNT ?? fields.map(() => "1")).map(Number)
+  const points = parseInt(header.POINTS?.[0] ?? "0", 10)
+  const width = parseInt(header.WIDTH?.[0] ?? "0", 10)
+  const height = parseInt(header.HEIGHT?.[0] ?? "0", 10)
+  const dataFormat = header.DATA?.[0]
+
+  const fieldTypes = fields.map((_, i) => PCD_TYPES[`${types[i]}${sizes[i]}`])
+  const xIndex = fields.indexOf("x")
+  const yIndex = fields.indexOf("y")
+  const zIndex = fields.indexOf("z")
+  const rgbIndex = fields.findIndex((field) => field === "rgb" || field === "rgba")
+
+  if (xIndex < 0 || yIndex < 0 || zIndex < 0) {
+    throw new Error("Invalid PCD file: missing x/y/z fields")
+  }
+
+  const vertices: number[] = []
+  const colors: number[] = []
+  const pushPoint = (values: number[]) => {
+    const [x, y, z] = [values[xIndex], values[yIndex], values[zIndex]]
+    // Organized clouds use NaN for missing measurements
+    if (Number.isNaN(x) || Number.isNaN(y) || Number.isNaN(z)) return
+
+    vertices.push(x, y, z)
+    if (rgbIndex >= 0) {
+      const packed = fieldTypes[rgbIndex] === "float32" ? floatBitsToUint(values[rgbIndex]) : values[rgbIndex]
+      unpackRGB(packed, colors)
+    }
+  }
+
+  if (dataFormat === "ascii") {
+    const lines = new TextDecoder().decode(bytes.subarray(headerEnd)).split(/\r?\n/)
+    for (const line of lines) {
+      if (!line.trim()) continue
+      const tokens = line.trim().split(/\s+/)
+      // Fields with COUNT > 1 occupy several columns, keep only the first value of each
+      const values: number[] = []
+      let column = 0
+      for (let i = 0; i < fields.length; i++) {
+        values.push(Number(tokens[column]))
+        column += counts[i]
+      }
+      pushPoint(values)
+    }
+  } else if (dataFormat === "binary") {
+    if (fieldTypes.some((type) => !type)) {
+      throw new Error("Unsupported PCD field type")
+    }
+
+    const view = new DataView(buffer)
+    const pointSize = fields.reduce((total, _, i) => total + sizes[i] * counts[i], 0)
+
+    for (let p = 0; p < points; p++) {
+      const values: number[] = []
+      let offset = headerEnd + p * pointSize
+      for (let i = 0; i < fields.length; i++) {
+        values.push(readScalar(view, offset, fieldTypes[i], true))
+        offset += sizes[i] * counts[i]
+      }
+      pushPoint(values)
+    }
+  } else {
+    throw new Error(`Unsupported PCD data format: ${dataFormat}`)
+  }
+
+  return buildThreeJSData(vertices, colors, width, height)
+}
+
+export const parsePointCloudFile = async (file: File): Promise<ThreeJSData> => {
+  const format = getPointCloudFormat(file.name)
+
+  switch (format) {
+    case "ply":
+      return parsePLY(await file.arrayBuffer())
+    case "pcd":
+      return parsePCD(await file.arrayBuffer())
+    case "xyz":
+      return parseXYZ(await file.text())
+    case "obj":
+      return parseOBJ(await file.text())
+    default:
+      throw new Error(`Unsupported point cloud file: ${file.name}`)
+  }
+}
@@ -0,0 +1,100 @@
+import { buildLevelsOfDetail, decodeBinaryResponse, decodeConvertResponse } from "./point-cloud-decode"
+import type { ThreeJSData } from "./point-cloud"
+import type { DecimatedCloud } from "./voxel-downsample"
+
+export type PointCloudWorkerRequest =
+  | { id: number; type: "parse"; text: string }
+  | { id: number; type: "parseBinary"; buffer: ArrayBuffer }
+  | { id: number; type: "decimate"; vertices: Float32Array; colors: Float32Array; budgets: number[] }
+
+export type PointCloudWorkerResponse =
+  | { id: number; type: "parsed"; json: unknown }
+  | { id: number; type: "decimated"; levels: DecimatedCloud[] }
+  | { id: number; type: "error"; message: string }
+
+type PendingRequest = {
+  resolve: (response: PointCloudWorkerResponse) => void
+  reject: (error: Error) => void
+}
+
+let worker: Worker | null = null
+let nextRequestId = 0
+const pending = new Map<number, PendingRequest>()
+
+const getWorker = () => {
+  if (typeof window === "undefined" || typeof Worker === "undefined") return null
+
+  if (!worker) {
+    try {
+      worker = new Worker(new URL("./workers/point-cloud.worker.ts", import.meta.url))
+    } catch (error) {
+      console.warn("Point cloud worker unavailable, decoding on the main thread:", error)
+      return null
+    }
+
+    worker.onmessage = (event: MessageEvent<PointCloudWorkerResponse>) => {
+      const request = pending.get(event.data.id)
+      if (!request) return
+      pending.delete(event.data.id)
+
+      if (event.data.type === "error") {
+        request.reject(new Error(event.data.message))
+      } else {
+        request.resolve(event.data)
+      }
+    }
+
+    // A crashed worker fails every in-flight request and is recreated on next use
+    worker.onerror = (event) => {
+      for (const request of pending.values()) {
+        request.reject(new Error(event.message || "Point cloud worker failed"))
+      }
+      pending.clear()
+      worker?.terminate()
+      worker = null
+    }
+  }
+
+  return worker
+}
+
+const postRequest = (request: PointCloudWorkerRequest, transfer: Transferable[] = []) => {
+  const target = getWorker()
+  if (!target) return null
+
+  return new Promise<PointCloudWorkerResponse>((resolve, reject) => {
+    pending.set(request.id, { resolve, reject })
+    target.postMessage(request, transfer)
+  })
+}
+
+// Parses a JSON response off the main thread, threejs_data arrays come back as Float32Arrays
+export const parseResponseOffThread = async (text: string): Promise<unknown> => {
+  const response = await postRequest({ id: nextRequestId++, type: "parse", text })
+  if (!response) return decodeConvertResponse(text).json
+  if (response.type !== "parsed") throw new Error("Unexpected worker response")
+  return response.json
+}
+
+// Decodes a binary conversion result off the main thread into the JSON response shape
+export const parseBinaryResponseOffThread = async (buffer: ArrayBuffer): Promise<unknown> => {
+  const response = await postRequest({ id: nextRequestId++, type: "parseBinary", buffer }, [buffer])
+  if (!response) return decodeBinaryResponse(buffer).json
+  if (response.type !== "parsed") throw new Error("Unexpected worker response")
+  return response.json
+}
+
+// Voxel-downsamples a cloud to each budget off the main thread, coarsest level first
+export const buildLevelsOffThread = async (data: ThreeJSData, budgets: number[]): Promise<DecimatedCloud[]> => {
+  // The worker gets copies so the caller keeps ownership of the full resolution arrays
+  const vertices = Float32Array.from(data.vertices)
+  const colors = Float32Array.from(data.colors)
+
+  const response = await postRequest({ id: nextRequestId++, type: "decimate", vertices, colors, budgets }, [
+    vertices.buffer,
+    colors.buffer,
+  ])
+  if (!response) return buildLevelsOfDetail(vertices, colors, budgets).levels
+  if (response.type !== "decimated") throw new Error("Unexpected worker response")
+  return response.levels
+}
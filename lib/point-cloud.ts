@@ -0,0 +1,86 @@
+// Clouds decoded off the main thread arrive as typed arrays, JSON and file imports as plain arrays
+export type PointArray = number[] | Float32Array
+
+export interface ThreeJSData {
+  vertices: PointArray
+  colors: PointArray
+  metadata: {
+    version: number
+    type: string
+    points: number
+    width: number
+    height: number
+  }
+}
+
+export const getPointCount = (data: ThreeJSData) => Math.floor(data.vertices.length / 3)
+
+// False for the NaN placeholders of missing grid samples, see isGridOrdered
+export const isValidPoint = (vertices: ArrayLike<number>, index: number) =>
+  Number.isFinite(vertices[index * 3]) &&
+  Number.isFinite(vertices[index * 3 + 1]) &&
+  Number.isFinite(vertices[index * 3 + 2])
+
+export const countValidPoints = (vertices: ArrayLike<number>) => {
+  let count = 0
+  for (let i = 0; i < vertices.length / 3; i++) {
+    if (isValidPoint(vertices, i)) count++
+  }
+  return count
+}
+
+// Copies the valid points only, for consumers that don't need the grid layout
+export const compactValidPoints = (vertices: ArrayLike<number>, colors: ArrayLike<number>) => {
+  const count = Math.floor(vertices.length / 3)
+  const outVertices = new Float32Array(countValidPoints(vertices) * 3)
+  const outColors = new Float32Array(outVertices.length)
+  let offset = 0
+  for (let i = 0; i < count; i++) {
+    if (!isValidPoint(vertices, i)) continue
+    for (let axis = 0; axis < 3; axis++) {
+      outVertices[offset + axis] = vertices[i * 3 + axis]
+      outColors[offset + axis] = colors[i * 3 + axis] ?? 1
+    }
+    offset += 3
+  }
+  return { vertices: outVertices, colors: outColors }
+}
+
+// Axis-aligned bounds of the valid points, null when there are none
+export const getPointBounds = (vertices: ArrayLike<number>) => {
+  const min = [Infinity, Infinity, Infinity]
+  const max = [-Infinity, -Infinity, -Infinity]
+  for (let i = 0; i < vertices.length / 3; i++) {
+    if (!isValidPoint(vertices, i)) continue
+    for (let axis = 0; axis < 3; axis++) {
+      min[axis] = Math.min(min[axis], vertices[i * 3 + axis])
+      max[axis] = Math.max(max[axis], vertices[i * 3 + axis])
+    }
+  }
+  return min[0] === Infinity ? null : { min, max }
+}
+
+// Colors are stored as 0-1 floats, most file formats expect 0-255 bytes
+export const colorToByte = (value: number | undefined) => {
+  if (value === undefined || Number.isNaN(value)) return 255
+  return Math.max(0, Math.min(255, Math.round(value * 255)))
+}
+
+// Clouds produced from an image are stored row by row, one point per pixel of a width x height grid.
+// Pixels without a position (clipped by the depth reconstruction) keep their slot with NaN coordinates.
+export const isGridOrdered = (data: ThreeJSData) =>
+  !!data.metadata?.width && !!data.metadata?.height && data.metadata.width * data.metadata.height === getPointCount(data)
+
+// Maps normalized image coordinates (0-1) to the index of the matching grid point
+export const gridIndexFromUV = (data: ThreeJSData, u: number, v: number) => {
+  const { width, height } = data.metadata
+  const x = Math.min(width - 1, Math.max(0, Math.floor(u * width)))
+  const y = Math.min(height - 1, Math.max(0, Math.floor(v * height)))
+  return y * width + x
+}
+
+// Inverse of gridIndexFromUV, returns the center of the grid cell
+export const gridUVFromIndex = (data: ThreeJSData, index: number) => {
+  const { width, height } = data.metadata
+  return { u: ((index % width) + 0.5) / width, v: (Math.floor(index / width) + 0.5) / height }
+}
@@ -0,0 +1,29 @@
+// In-memory sliding window limiter for the API routes. State lives in the server process, so each
+// instance counts separately and a restart clears it.
+
+export interface RateLimiterOptions {
+  limit: number
+  windowMs: number
+}
+
+export const createRateLimiter = ({ limit, windowMs }: RateLimiterOptions) => {
+  const hits = new Map<string, number[]>()
+
+  return {
+    // Records a request for the key, false when it is over the limit
+    take(key: string, now = Date.now()) {
+      const recent = (hits.get(key) ?? []).filter((time) => now - time < windowMs)
+      // Drop keys that went quiet, so the map doesn't grow with every client ever seen
+      for (const [other, times] of hits) {
+        if (times[times.length - 1] <= now - windowMs) hits.delete(other)
+      }
+      if (recent.length >= limit) {
+        hits.set(key, recent)
+        return false
+      }
+      recent.push(now)
+      hits.set(key, recent)
+      return true
+    },
+  }
+}
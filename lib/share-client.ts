@@ -0,0 +1,76 @@
+import { getPointCount, type ThreeJSData } from "./point-cloud"
+import { BINARY_POINT_CLOUD_MIME, encodeBinaryPointCloud } from "./binary-point-cloud"
+import { DEFAULT_VIEWER_SETTINGS, viewerSettingsSchema } from "./viewer-settings"
+import { isApiErrorEnvelope } from "./api-proxy"
+import { parseBinaryResponseOffThread } from "./point-cloud-worker"
+import { convertResponseSchema, formatZodError } from "./vis3d-api"
+import {
+  MAX_SHARE_BYTES,
+  SHARE_ENDPOINT,
+  type ShareImages,
+  type SharedCloud,
+  type ShareState,
+  type ShareStateInput,
+} from "./share"
+
+// Browser side of sharing: uploads a cloud to the share routes and reads shared clouds back
+
+export const getShareUrl = (id: string) => `${window.location.origin}/view/${encodeURIComponent(id)}`
+
+const readError = async (response: Response) => {
+  const text = await response.text().catch(() => "")
+  try {
+    const json = JSON.parse(text)
+    if (isApiErrorEnvelope(json)) return json.error
+  } catch {
+    // Not JSON
+  }
+  return `HTTP error! status: ${response.status}`
+}
+
+// Uploads the cloud and view state, resolves to the id of the new share
+export const createShare = async (data: ThreeJSData, images: ShareImages, state: ShareStateInput): Promise<string> => {
+  const cloud = encodeBinaryPointCloud(data, {
+    depth_image_base64: images.depthImageBase64 ?? undefined,
+    original_image_base64: images.originalImageBase64 ?? undefined,
+  })
+  if (cloud.byteLength > MAX_SHARE_BYTES) {
+    throw new Error(`This cloud is too large to share (${getPointCount(data).toLocaleString()} points)`)
+  }
+
+  const formData = new FormData()
+  formData.append("cloud", new Blob([cloud], { type: BINARY_POINT_CLOUD_MIME }))
+  formData.append("state", JSON.stringify(state))
+
+  const response = await fetch(SHARE_ENDPOINT, { method: "POST", body: formData })
+  if (!response.ok) throw new Error(await readError(response))
+  const { id } = (await response.json()) as { id: string }
+  return id
+}
+
+export const fetchShare = async (id: string): Promise<SharedCloud> => {
+  const encodedId = encodeURIComponent(id)
+  const [stateResponse, cloudResponse] = await Promise.all([
+    fetch(`${SHARE_ENDPOINT}/${encodedId}`),
+    fetch(`${SHARE_ENDPOINT}/${encodedId}/cloud`),
+  ])
+  if (!stateResponse.ok) throw new Error(await readError(stateResponse))
+  if (!cloudResponse.ok) throw new Error(await readError(cloudResponse))
+
+  const state = (await stateResponse.json()) as ShareState
+  // Stored state is checked again, anything out of bounds falls back to the defaults
+  const settings = viewerSettingsSchema.safeParse(state.settings)
+  // The stored cloud gets the same checks as a fresh conversion result
+  const decoded = convertResponseSchema.safeParse(await parseBinaryResponseOffThread(await cloudResponse.arrayBuffer()))
+  if (!decoded.success) throw new Error(`Shared cloud is invalid: ${formatZodError(decoded.error)}`)
+  if (!decoded.data.success) throw new Error("Shared cloud is invalid")
+  const { data } = decoded.data
+
+  return {
+    state,
+    settings: { ...DEFAULT_VIEWER_SETTINGS, ...(settings.success ? settings.data : {}) },
+    threejsData: data.threejs_data,
+    depthImageBase64: data.depth_image_base64 ?? null,
+    originalImageBase64: data.original_image_base64 ?? null,
+  }
+}
@@ -0,0 +1,73 @@
+import { randomBytes } from "node:crypto"
+import { mkdir, readFile, readdir, stat, writeFile } from "node:fs/promises"
+import path from "node:path"
+import type { ShareState } from "./share"
+
+// Server-only file store for shared clouds: <id>.v3dp holds the binary cloud, <id>.json the view state.
+// Point VIS3D_SHARE_DIR at a persistent volume in production.
+
+const SHARE_DIR = process.env.VIS3D_SHARE_DIR ?? path.join(process.cwd(), ".data", "shares")
+
+// Total size of all stored shares, new shares are refused once it is reached
+export const SHARE_QUOTA_BYTES = (Number(process.env.VIS3D_SHARE_QUOTA_MB) || 2048) * 1024 * 1024
+
+const isMissing = (error: unknown) => (error as NodeJS.ErrnoException)?.code === "ENOENT"
+
+// Ids are generated here, anything else is rejected before it gets near the filesystem
+const SHARE_ID_PATTERN = /^[A-Za-z0-9_-]{16}$/
+
+export const isShareId = (id: string) => SHARE_ID_PATTERN.test(id)
+
+const sharePath = (id: string, extension: "json" | "v3dp") => {
+  if (!isShareId(id)) throw new Error(`Invalid share id: ${id}`)
+  return path.join(SHARE_DIR, `${id}.${extension}`)
+}
+
+// Bytes currently used by the store
+export const getShareStoreUsage = async () => {
+  let names: string[]
+  try {
+    names = await readdir(SHARE_DIR)
+  } catch (error) {
+    if (isMissing(error)) return 0
+    throw error
+  }
+  const sizes = await Promise.all(
+    names.map((name) =>
+      stat(path.join(SHARE_DIR, name)).then(
+        (info) => info.size,
+        () => 0,
+      ),
+    ),
+  )
+  return sizes.reduce((sum, size) => sum + size, 0)
+}
+
+export const saveShare = async (cloud: Uint8Array, state: Omit<ShareState, "id" | "createdAt">) => {
+  await mkdir(SHARE_DIR, { recursive: true })
+  const id = randomBytes(12).toString("base64url")
+  const stored: ShareState = { ...state, id, createdAt: Date.now() }
+
+  // The cloud goes first, so a state file always has its cloud
+  await writeFile(sharePath(id, "v3dp"), cloud)
+  await writeFile(sharePath(id, "json"), JSON.stringify(stored))
+  return stored
+}
+
+export const loadShareState = async (id: string): Promise<ShareState | null> => {
+  try {
+    return JSON.parse(await readFile(sharePath(id, "json"), "utf8"))
+  } catch (error) {
+    if (isMissing(error)) return null
+    throw error
+  }
+}
+
+export const loadShareCloud = async (id: string): Promise<Buffer | null> => {
+  try {
+    return await readFile(sharePath(id, "v3dp"))
+  } catch (error) {
+    if (isMissing(error)) return null
+    throw error
+  }
+}
@@ -0,0 +1,52 @@
+import { z } from "zod"
+import type { ThreeJSData } from "./point-cloud"
+import { viewerSettingsSchema, type ViewerSettings } from "./viewer-settings"
+
+// Shared conversion results. The cloud (with its depth/original images) is stored in the binary
+// point cloud format, the camera pose and viewer settings in a small JSON document next to it.
+
+export const SHARE_ENDPOINT = "/api/share"
+
+// Largest cloud one share may upload. The store as a whole is bounded by a quota and uploads by a
+// per-client rate limit, see app/api/share/route.ts.
+export const MAX_SHARE_BYTES = 100 * 1024 * 1024
+
+const vec3Schema = z.tuple([z.number(), z.number(), z.number()])
+
+export const cameraPoseSchema = z.object({
+  position: vec3Schema,
+  target: vec3Schema,
+  // Auto-rotate angle of the cloud around the vertical axis in radians, 0 for older shares
+  modelRotation: z.number().finite().optional(),
+})
+
+export type CameraPose = z.infer<typeof cameraPoseSchema>
+
+// What the client uploads with the cloud. Settings are merged over the defaults when read, so
+// shares made by older versions still open.
+export const shareStateInputSchema = z.object({
+  name: z.string().max(200).optional(),
+  camera: cameraPoseSchema.nullable(),
+  settings: viewerSettingsSchema,
+})
+
+export type ShareStateInput = z.infer<typeof shareStateInputSchema>
+
+export interface ShareState extends ShareStateInput {
+  id: string
+  createdAt: number
+  points: number
+}
+
+export interface SharedCloud {
+  state: ShareState
+  settings: ViewerSettings
+  threejsData: ThreeJSData
+  depthImageBase64: string | null
+  originalImageBase64: string | null
+}
+
+export interface ShareImages {
+  depthImageBase64?: string | null
+  originalImageBase64?: string | null
+}
@@ -0,0 +1,47 @@
+// Triangulates a grid-ordered cloud (one point per pixel, row by row) into two triangles per grid cell.
+// Triangles whose corners differ in depth by more than `maxDepthJump` (as a fraction of the
+// cloud's overall depth range) are dropped so object edges don't get stretched into walls, and so are
+// triangles touching a missing (NaN) sample.
+export const buildGridSurfaceIndices = (
+  positions: ArrayLike<number>,
+  width: number,
+  height: number,
+  maxDepthJump: number,
+) => {
+  let minZ = Infinity
+  let maxZ = -Infinity
+  for (let i = 2; i < positions.length; i += 3) {
+    if (Number.isNaN(positions[i])) continue
+    minZ = Math.min(minZ, positions[i])
+    maxZ = Math.max(maxZ, positions[i])
+  }
+
+  const limit = (maxZ - minZ || 1) * maxDepthJump
+  const z = (index: number) => positions[index * 3 + 2]
+  // Comparisons with NaN are false, so a missing corner fails this check
+  const isContinuous = (a: number, b: number, c: number) => {
+    const za = z(a)
+    const zb = z(b)
+    const zc = z(c)
+    return Math.max(za, zb, zc) - Math.min(za, zb, zc) <= limit
+  }
+
+  const indices: number[] = []
+  for (let y = 0; y < height - 1; y++) {
+    for (let x = 0; x < width - 1; x++) {
+      const topLeft = y * width + x
+      const topRight = topLeft + 1
+      const bottomLeft = topLeft + width
+      const bottomRight = bottomLeft + 1
+
+      if (isContinuous(topLeft, bottomLeft, topRight)) {
+        indices.push(topLeft, bottomLeft, topRight)
+      }
+      if (isContinuous(topRight, bottomLeft, bottomRight)) {
+        indices.push(topRight, bottomLeft, bottomRight)
+      }
+    }
+  }
+
+  return new Uint32Array(indices)
+}
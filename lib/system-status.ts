@@ -0,0 +1,15 @@
+// Activity flags shown by the SystemStatus card. Components in other cards report their part as a
+// window event like the other cross-component updates.
+
+export interface SystemActivity {
+  faceDetection: boolean
+  handDetection: boolean
+  imageConversion: boolean
+  cameraActive: boolean
+}
+
+export const SYSTEM_STATUS_EVENT = "systemStatusUpdate"
+
+export const updateSystemStatus = (updates: Partial<SystemActivity>) => {
+  window.dispatchEvent(new CustomEvent<Partial<SystemActivity>>(SYSTEM_STATUS_EVENT, { detail: updates }))
+}
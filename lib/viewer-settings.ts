@@ -0,0 +1,99 @@
+import { z } from "zod"
+
+export type RenderMode = "points" | "surface"
+
+export type ColorMode = "rgb" | "depth" | "normal" | "single"
+
+export interface ViewerSettings {
+  pointSize: number
+  sizeAttenuation: boolean
+  colorMode: ColorMode
+  singleColor: string
+  autoRotate: boolean
+  // Radians per second around the vertical axis
+  rotationSpeed: number
+  backgroundColor: string
+  renderMode: RenderMode
+  wireframe: boolean
+  // Fraction of the depth range above which surface triangles are dropped
+  maxDepthJump: number
+  // Larger clouds are shown voxel-decimated to this many points first
+  pointBudget: number
+  progressiveUpgrade: boolean
+  // Hand gestures from the webcam detector move the camera
+  gestureControl: boolean
+}
+
+export const DEFAULT_VIEWER_SETTINGS: ViewerSettings = {
+  pointSize: 0.015,
+  sizeAttenuation: true,
+  colorMode: "rgb",
+  singleColor: "#60a5fa",
+  autoRotate: true,
+  rotationSpeed: 0.18,
+  backgroundColor: "#000000",
+  renderMode: "points",
+  wireframe: false,
+  maxDepthJump: 0.05,
+  pointBudget: 300000,
+  progressiveUpgrade: true,
+  gestureControl: false,
+}
+
+export const POINT_BUDGETS = [100000, 300000, 1000000, 3000000]
+
+export const COLOR_MODES: Array<{ mode: ColorMode; label: string }> = [
+  { mode: "rgb", label: "RGB" },
+  { mode: "depth", label: "Depth gradient" },
+  { mode: "normal", label: "Normals" },
+  { mode: "single", label: "Single color" },
+]
+
+const hexColorSchema = z.string().regex(/^#[0-9a-f]{6}$/i)
+
+// Settings that arrive from outside (shares), partial since older shares lack newer fields. Bounds
+// follow the settings panel's controls.
+export const viewerSettingsSchema: z.ZodType<Partial<ViewerSettings>> = z
+  .object({
+    pointSize: z.number().min(0.001).max(0.1),
+    sizeAttenuation: z.boolean(),
+    colorMode: z.enum(["rgb", "depth", "normal", "single"]),
+    singleColor: hexColorSchema,
+    autoRotate: z.boolean(),
+    rotationSpeed: z.number().min(0).max(2),
+    backgroundColor: hexColorSchema,
+    renderMode: z.enum(["points", "surface"]),
+    wireframe: z.boolean(),
+    maxDepthJump: z.number().min(0.005).max(0.5),
+    pointBudget: z
+      .number()
+      .int()
+      .min(POINT_BUDGETS[0])
+      .max(POINT_BUDGETS[POINT_BUDGETS.length - 1]),
+    progressiveUpgrade: z.boolean(),
+    gestureControl: z.boolean(),
+  })
+  .partial()
+
+const STORAGE_KEY = "vis3d:viewer-settings"
+
+export const loadViewerSettings = (): ViewerSettings => {
+  if (typeof window === "undefined") return DEFAULT_VIEWER_SETTINGS
+
+  try {
+    const stored = window.localStorage.getItem(STORAGE_KEY)
+    // Merge with defaults so settings saved by older versions pick up new fields
+    return stored ? { ...DEFAULT_VIEWER_SETTINGS, ...JSON.parse(stored) } : DEFAULT_VIEWER_SETTINGS
+  } catch (error) {
+    console.warn("Could not read viewer settings:", error)
+    return DEFAULT_VIEWER_SETTINGS
+  }
+}
+
+export const saveViewerSettings = (settings: ViewerSettings) => {
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(settings))
+  } catch (error) {
+    console.warn("Could not save viewer settings:", error)
+  }
+}
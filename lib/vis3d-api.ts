@@ -0,0 +1,379 @@
+import { z } from "zod"
+import type { PointArray, ThreeJSData } from "./point-cloud"
+import { MAX_UPLOAD_BYTES, formatBytes, isApiErrorEnvelope } from "./api-proxy"
+import { fetchFromProfile, type ApiEndpoint, type ApiProfile, type ProfileFetchOptions } from "./api-profiles"
+import { BINARY_POINT_CLOUD_MIME } from "./binary-point-cloud"
+import { parseBinaryResponseOffThread, parseResponseOffThread } from "./point-cloud-worker"
+
+// Client for the Vis3D backend's /api/v1 endpoints. Every call resolves to an ApiResult instead of
+// throwing, and responses are validated against the schemas below before they reach the viewer.
+
+// Point arrays can hold millions of values, so they are checked with a plain loop rather than
+// a per-element z.number() schema
+const pointArraySchema = z.custom<PointArray>(
+  (value) => Array.isArray(value) || value instanceof Float32Array,
+  { message: "Expected an array of numbers" },
+)
+
+// Typed arrays may hold NaN, which marks a missing sample of a grid cloud (see isGridOrdered).
+// JSON can't encode NaN, and the decoder leaves arrays with anything but numbers untyped.
+const firstNonNumberIndex = (values: PointArray) => {
+  const allowNaN = values instanceof Float32Array
+  for (let i = 0; i < values.length; i++) {
+    const value = values[i]
+    if (typeof value !== "number" || (!Number.isFinite(value) && !(allowNaN && Number.isNaN(value)))) return i
+  }
+  return -1
+}
+
+export const threeJSDataSchema = z
+  .object({
+    vertices: pointArraySchema,
+    colors: pointArraySchema,
+    metadata: z.object({
+      version: z.number(),
+      type: z.string(),
+      points: z.number().int().nonnegative(),
+      width: z.number().int().nonnegative(),
+      height: z.number().int().nonnegative(),
+    }),
+  })
+  .superRefine((data, ctx) => {
+    const { vertices, colors, metadata } = data
+
+    for (const key of ["vertices", "colors"] as const) {
+      const index = firstNonNumberIndex(data[key])
+      if (index >= 0) {
+        ctx.addIssue({ code: "custom", path: [key, index], message: `Expected a finite number, got ${data[key][index]}` })
+        return
+      }
+    }
+
+    if (vertices.length === 0) {
+      ctx.addIssue({ code: "custom", path: ["vertices"], message: "Point cloud is empty" })
+      return
+    }
+    if (vertices.length % 3 !== 0) {
+      ctx.addIssue({
+        code: "custom",
+        path: ["vertices"],
+        message: `Length ${vertices.length} is not a multiple of 3 (x, y, z per point)`,
+      })
+    }
+    if (colors.length !== vertices.length) {
+      ctx.addIssue({
+        code: "custom",
+        path: ["colors"],
+        message: `Vertex/color length mismatch: ${vertices.length} vertex values but ${colors.length} color values`,
+      })
+    }
+
+    const points = Math.floor(vertices.length / 3)
+    if (metadata.points !== points) {
+      ctx.addIssue({
+        code: "custom",
+        path: ["metadata", "points"],
+        message: `Point count mismatch: metadata.points is ${metadata.points} but vertices hold ${points} points`,
+      })
+    }
+  }) satisfies z.ZodType<ThreeJSData>
+
+export const convertResponseSchema = z.discriminatedUnion("success", [
+  z.object({
+    success: z.literal(true),
+    message: z.string().optional(),
+    data: z.object({
+      threejs_data: threeJSDataSchema,
+      depth_image_base64: z.string().optional(),
+      original_image_base64: z.string().optional(),
+    }),
+  }),
+  z.object({
+    success: z.literal(false),
+    message: z.string().optional(),
+    error: z.string().optional(),
+  }),
+])
+
+export type APIResponse = z.infer<typeof convertResponseSchema>
+
+export const sampleResponseSchema = z.object({ threejs_data: threeJSDataSchema })
+
+export const healthResponseSchema = z.object({ status: z.string() }).passthrough()
+
+export type ApiErrorKind =
+  // Rejected before anything was sent
+  | "upload"
+  | "network"
+  | "timeout"
+  | "http"
+  // Body could not be decoded at all (HTML page, broken JSON or binary)
+  | "invalid_response"
+  // Body decoded but doesn't match the schema
+  | "validation"
+  // Backend answered success: false
+  | "backend"
+  // Cancelled through the caller's AbortSignal
+  | "aborted"
+
+export interface ApiError {
+  kind: ApiErrorKind
+  message: string
+  status?: number
+  // Start of the offending body, for debugging
+  body?: string
+}
+
+export type ApiResult<T> = { ok: true; data: T; raw: unknown } | { ok: false; error: ApiError }
+
+export interface ConvertResult {
+  threejsData: ThreeJSData
+  depthImageBase64: string | null
+  originalImageBase64: string | null
+  message?: string
+}
+
+export type ConvertProgress =
+  | { phase: "uploading"; loaded: number; total: number }
+  // Upload finished, waiting for the backend to run the model
+  | { phase: "processing" }
+  | { phase: "downloading"; loaded: number; total: number }
+  | { phase: "decoding" }
+  // `attempt` failed out of `attempts` in total (the first try plus the profile's retries)
+  | { phase: "retrying"; attempt: number; attempts: number; delayMs: number; reason: string }
+
+export interface ConvertOptions {
+  signal?: AbortSignal
+  onProgress?: (progress: ConvertProgress) => void
+}
+
+export interface HealthResult {
+  status: string
+  latencyMs: number
+}
+
+const failure = (kind: ApiErrorKind, message: string, extra: Omit<ApiError, "kind" | "message"> = {}) => ({
+  ok: false as const,
+  error: { kind, message, ...extra },
+})
+
+export const formatZodError = (error: z.ZodError) => {
+  const [issue] = error.issues
+  const path = issue.path.reduce<string>(
+    (joined, part) => (typeof part === "number" ? `${joined}[${part}]` : joined ? `${joined}.${part}` : part),
+    "",
+  )
+  return path ? `${path}: ${issue.message}` : issue.message
+}
+
+const RETRY_BASE_DELAY_MS = 1000
+
+const isRetryable = (error: ApiError) =>
+  error.kind === "network" || (error.kind === "http" && (error.status ?? 0) >= 500)
+
+// Resolves false when the signal aborts before the delay is over
+const wait = (delayMs: number, signal?: AbortSignal) =>
+  new Promise<boolean>((resolve) => {
+    if (signal?.aborted) return resolve(false)
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", handleAbort)
+      resolve(true)
+    }, delayMs)
+    const handleAbort = () => {
+      clearTimeout(timer)
+      resolve(false)
+    }
+    signal?.addEventListener("abort", handleAbort, { once: true })
+  })
+
+const cancelled = () => failure("aborted", "Conversion cancelled")
+
+const isHTML = (text: string) => {
+  const head = text.substring(0, 200).trim()
+  return head.startsWith("<!DOCTYPE") || head.startsWith("<html")
+}
+
+const request = async (
+  profile: ApiProfile,
+  endpoint: ApiEndpoint,
+  init?: RequestInit,
+  options?: ProfileFetchOptions,
+): Promise<{ ok: true; response: Response } | { ok: false; error: ApiError }> => {
+  let response: Response
+  try {
+    response = await fetchFromProfile(profile, endpoint, init, options)
+  } catch (error) {
+    if (init?.signal?.aborted) return cancelled()
+    const message = error instanceof Error ? error.message : String(error)
+    return error instanceof Error && error.name === "TimeoutError"
+      ? failure("timeout", message)
+      : failure("network", `Could not reach ${profile.name}: ${message}`)
+  }
+
+  if (response.ok) return { ok: true, response }
+
+  // The proxy answers failures with an ApiErrorEnvelope, anything else is reported raw
+  const text = await response.text().catch(() => "")
+  let message = `HTTP error! status: ${response.status} - ${text.substring(0, 300) || response.statusText}`
+  if (isHTML(text)) {
+    message = `HTTP error! status: ${response.status} - API returned HTML instead of JSON. Check the API URL and CORS settings.`
+  } else {
+    try {
+      const json = JSON.parse(text)
+      if (isApiErrorEnvelope(json)) message = json.error
+    } catch {
+      // Not JSON
+    }
+  }
+  return failure("http", message, { status: response.status, body: text.substring(0, 1000) })
+}
+
+// JSON bodies are parsed in the point cloud worker, which also swaps point arrays for Float32Arrays
+const readJSON = async (response: Response): Promise<{ ok: true; json: unknown } | { ok: false; error: ApiError }> => {
+  const text = await response.text()
+  if (isHTML(text)) {
+    return failure("invalid_response", "API returned HTML instead of JSON. Check the API URL and CORS settings.", {
+      body: text.substring(0, 1000),
+    })
+  }
+
+  try {
+    return { ok: true, json: await parseResponseOffThread(text) }
+  } catch (error) {
+    return failure("invalid_response", `Invalid JSON response from API: ${error instanceof Error ? error.message : error}`, {
+      body: text.substring(0, 1000),
+    })
+  }
+}
+
+const validate = <T>(schema: z.ZodType<T>, json: unknown): ApiResult<T> => {
+  const parsed = schema.safeParse(json)
+  return parsed.success
+    ? { ok: true, data: parsed.data, raw: json }
+    : failure("validation", `Invalid API response: ${formatZodError(parsed.error)}`)
+}
+
+// Uploads an image for conversion. The compact binary encoding is offered first, backends
+// that don't support it answer with JSON, and a binary body that fails to decode is retried as JSON.
+// 5xx responses and network errors are retried with exponential backoff, up to profile.maxRetries.
+export const convert = async (
+  profile: ApiProfile,
+  file: File,
+  { signal, onProgress }: ConvertOptions = {},
+): Promise<ApiResult<ConvertResult>> => {
+  if (file.size > MAX_UPLOAD_BYTES) {
+    return failure("upload", `Image is ${formatBytes(file.size)}, the upload limit is ${formatBytes(MAX_UPLOAD_BYTES)}`)
+  }
+
+  const sendOnce = (acceptBinary: boolean) => {
+    const formData = new FormData()
+    formData.append("file", file)
+    return request(
+      profile,
+      "convert",
+      {
+        method: "POST",
+        body: formData,
+        signal,
+        headers: { Accept: acceptBinary ? `${BINARY_POINT_CLOUD_MIME}, application/json;q=0.9` : "application/json" },
+      },
+      {
+        onUploadProgress: (loaded, total) => {
+          onProgress?.(total > 0 && loaded >= total ? { phase: "processing" } : { phase: "uploading", loaded, total })
+        },
+        onDownloadProgress: (loaded, total) => onProgress?.({ phase: "downloading", loaded, total }),
+      },
+    )
+  }
+
+  const send = async (acceptBinary: boolean) => {
+    for (let attempt = 0; ; attempt++) {
+      const sent = await sendOnce(acceptBinary)
+      if (sent.ok || attempt >= profile.maxRetries || !isRetryable(sent.error)) return sent
+
+      // Jittered so a batch of failed uploads doesn't retry in lockstep
+      const delayMs = Math.round(RETRY_BASE_DELAY_MS * 2 ** attempt * (0.75 + Math.random() * 0.5))
+      onProgress?.({
+        phase: "retrying",
+        attempt: attempt + 1,
+        attempts: profile.maxRetries + 1,
+        delayMs,
+        reason: sent.error.message,
+      })
+      if (!(await wait(delayMs, signal))) return cancelled()
+    }
+  }
+
+  let sent = await send(true)
+  if (!sent.ok) return sent
+  onProgress?.({ phase: "decoding" })
+
+  let json: unknown
+  if (sent.response.headers.get("content-type")?.includes(BINARY_POINT_CLOUD_MIME)) {
+    try {
+      json = await parseBinaryResponseOffThread(await sent.response.arrayBuffer())
+    } catch (binaryError) {
+      console.warn("Binary point cloud decode failed, retrying as JSON:", binaryError)
+      sent = await send(false)
+      if (!sent.ok) return sent
+      onProgress?.({ phase: "decoding" })
+    }
+  }
+
+  if (json === undefined) {
+    const read = await readJSON(sent.response)
+    if (!read.ok) return read
+    json = read.json
+  }
+  // Decoding can't be interrupted, but a cancelled conversion must not reach the viewer
+  if (signal?.aborted) return cancelled()
+
+  const result = validate(convertResponseSchema, json)
+  if (!result.ok) return result
+
+  const response = result.data
+  if (!response.success) {
+    return failure("backend", response.message || response.error || "API returned success: false")
+  }
+
+  return {
+    ok: true,
+    raw: json,
+    data: {
+      threejsData: response.data.threejs_data,
+      depthImageBase64: response.data.depth_image_base64 ?? null,
+      originalImageBase64: response.data.original_image_base64 ?? null,
+      message: response.message,
+    },
+  }
+}
+
+// Fetches the backend's demo point cloud
+export const sample = async (profile: ApiProfile): Promise<ApiResult<ThreeJSData>> => {
+  const sent = await request(profile, "sample", { method: "GET" })
+  if (!sent.ok) return sent
+
+  const read = await readJSON(sent.response)
+  if (!read.ok) return read
+
+  const result = validate(sampleResponseSchema, read.json)
+  return result.ok ? { ...result, data: result.data.threejs_data } : result
+}
+
+export const health = async (profile: ApiProfile): Promise<ApiResult<HealthResult>> => {
+  const started = performance.now()
+  const sent = await request(profile, "health", { method: "GET" })
+  if (!sent.ok) return sent
+
+  let json: unknown
+  try {
+    json = await sent.response.json()
+  } catch {
+    return failure("invalid_response", "Health check did not return JSON")
+  }
+
+  const result = validate(healthResponseSchema, json)
+  return result.ok
+    ? { ...result, data: { status: result.data.status, latencyMs: Math.round(performance.now() - started) } }
+    : result
+}
@@ -0,0 +1,182 @@
+import { boxOverlap } from "./geometry"
+import { computeIntegralImage, rectSum, toGrayscale, type IntegralImage, type RGBAImage } from "./integral-image"
+import type { FaceDetection } from "./types"
+
+// Fallback face detector: a Haar-like feature cascade evaluated on integral images with a
+// multi-scale sliding window. Each stage compares mean brightness of facial regions (eyes darker
+// than forehead, bridge and cheeks, left and right eye alike), normalized by the window's standard
+// deviation. Most windows fail the first, cheapest stages, and every feature costs four lookups.
+
+export interface CascadeOptions {
+  // Window growth between scales, smaller finds more sizes but costs more
+  scaleFactor: number
+  // Overlapping raw hits a face needs before it is reported
+  minNeighbors: number
+  maxFaces: number
+  // Smallest window in pixels of the analysed image
+  minSize: number
+  // Window step as a fraction of the window size
+  stepRatio: number
+}
+
+export const DEFAULT_CASCADE_OPTIONS: CascadeOptions = {
+  scaleFactor: 1.2,
+  minNeighbors: 3,
+  maxFaces: 3,
+  minSize: 40,
+  stepRatio: 0.05,
+}
+
+export const SCALE_FACTOR_OPTIONS = [1.1, 1.2, 1.3, 1.5] as const
+
+// Regions as fractions of the (square) window
+type Region = readonly [x: number, y: number, width: number, height: number]
+
+const REGIONS = {
+  forehead: [0.2, 0.05, 0.6, 0.2],
+  leftEye: [0.2, 0.25, 0.2, 0.2],
+  rightEye: [0.6, 0.25, 0.2, 0.2],
+  bridge: [0.42, 0.25, 0.16, 0.2],
+  leftCheek: [0.15, 0.55, 0.25, 0.15],
+  rightCheek: [0.6, 0.55, 0.25, 0.15],
+  mouth: [0.3, 0.72, 0.4, 0.12],
+} satisfies Record<string, Region>
+
+type RegionName = keyof typeof REGIONS
+
+// Windows this flat can't contain the contrast of a face
+const MIN_STD_DEV = 12
+
+interface ScaledRegion {
+  dx: number
+  dy: number
+  width: number
+  height: number
+  area: number
+}
+
+const scaleRegions = (size: number) => {
+  const scaled = {} as Record<RegionName, ScaledRegion>
+  for (const name of Object.keys(REGIONS) as RegionName[]) {
+    const [x, y, width, height] = REGIONS[name]
+    const region = {
+      dx: Math.round(x * size),
+      dy: Math.round(y * size),
+      width: Math.max(1, Math.round(width * size)),
+      height: Math.max(1, Math.round(height * size)),
+    }
+    scaled[name] = { ...region, area: region.width * region.height }
+  }
+  return scaled
+}
+
+const evaluateWindow = (
+  integral: IntegralImage,
+  regions: Record<RegionName, ScaledRegion>,
+  x: number,
+  y: number,
+  size: number,
+) => {
+  const stride = integral.width + 1
+  const mean = (name: RegionName) => {
+    const region = regions[name]
+    return rectSum(integral.sum, stride, x + region.dx, y + region.dy, region.width, region.height) / region.area
+  }
+
+  // Stage 0: enough contrast to normalize against
+  const area = size * size
+  const windowMean = rectSum(integral.sum, stride, x, y, size, size) / area
+  const variance = rectSum(integral.squares, stride, x, y, size, size) / area - windowMean * windowMean
+  if (variance < MIN_STD_DEV * MIN_STD_DEV) return false
+  const stdDev = Math.sqrt(variance)
+
+  // Stage 1: eyes darker than the forehead
+  const leftEye = mean("leftEye")
+  const rightEye = mean("rightEye")
+  const darkerEye = Math.max(leftEye, rightEye)
+  if (mean("forehead") - darkerEye < 0.25 * stdDev) return false
+
+  // Stage 2: eyes alike and darker than the window as a whole
+  if (Math.abs(leftEye - rightEye) > 0.6 * stdDev) return false
+  if (windowMean - darkerEye < 0.1 * stdDev) return false
+
+  // Stage 3: nose bridge and cheeks brighter than the eyes
+  if (mean("bridge") - (leftEye + rightEye) / 2 < 0.15 * stdDev) return false
+  const cheeks = (mean("leftCheek") + mean("rightCheek")) / 2
+  if (cheeks - darkerEye < 0.15 * stdDev) return false
+
+  // Stage 4: mouth darker than the cheeks
+  return cheeks - mean("mouth") > 0
+}
+
+interface Candidate {
+  x: number
+  y: number
+  size: number
+}
+
+// Merges raw hits that describe the same face, like OpenCV's groupRectangles
+const groupCandidates = (candidates: Candidate[], minNeighbors: number) => {
+  const parent = candidates.map((_, index) => index)
+  const find = (index: number): number => (parent[index] === index ? index : (parent[index] = find(parent[index])))
+
+  for (let i = 0; i < candidates.length; i++) {
+    for (let j = i + 1; j < candidates.length; j++) {
+      const a = candidates[i]
+      const b = candidates[j]
+      const delta = 0.2 * Math.min(a.size, b.size)
+      if (Math.abs(a.x - b.x) <= delta && Math.abs(a.y - b.y) <= delta && Math.abs(a.size - b.size) <= delta) {
+        parent[find(i)] = find(j)
+      }
+    }
+  }
+
+  const groups = new Map<number, Candidate[]>()
+  candidates.forEach((candidate, index) => {
+    const root = find(index)
+    const members = groups.get(root)
+    if (members) members.push(candidate)
+    else groups.set(root, [candidate])
+  })
+
+  const faces: FaceDetection[] = []
+  for (const members of groups.values()) {
+    if (members.length < minNeighbors) continue
+    const average = (key: keyof Candidate) => members.reduce((total, member) => total + member[key], 0) / members.length
+    const size = average("size")
+    faces.push({ x: average("x"), y: average("y"), width: size, height: size, score: members.length })
+  }
+  return faces
+}
+
+export const detectCascadeFaces = (
+  image: RGBAImage,
+  options: CascadeOptions = DEFAULT_CASCADE_OPTIONS,
+): FaceDetection[] => {
+  const { width, height } = image
+  const integral = computeIntegralImage(toGrayscale(image), width, height)
+  const maxSize = Math.min(width, height)
+  const scaleFactor = Math.max(1.05, options.scaleFactor)
+
+  const candidates: Candidate[] = []
+  for (let size = options.minSize; size <= maxSize; size = Math.round(size * scaleFactor)) {
+    const regions = scaleRegions(size)
+    const step = Math.max(1, Math.round(size * options.stepRatio))
+    for (let y = 0; y + size <= height; y += step) {
+      for (let x = 0; x + size <= width; x += step) {
+        if (evaluateWindow(integral, regions, x, y, size)) candidates.push({ x, y, size })
+      }
+    }
+  }
+
+  // Strongest groups first, then drop groups mostly covered by a stronger one
+  const grouped = groupCandidates(candidates, Math.max(1, options.minNeighbors)).sort(
+    (a, b) => (b.score ?? 0) - (a.score ?? 0),
+  )
+  const faces: FaceDetection[] = []
+  for (const face of grouped) {
+    if (faces.length >= options.maxFaces) break
+    if (!faces.some((other) => boxOverlap(face, other) > 0.3)) faces.push(face)
+  }
+  return faces
+}
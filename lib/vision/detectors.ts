@@ -0,0 +1,52 @@
+import { createHeuristicDetector } from "./heuristic-detector"
+import { createMediaPipeDetector } from "./mediapipe-detector"
+import { createShapeDetectionDetector, isShapeDetectionSupported } from "./shape-detection-detector"
+import type { CascadeOptions } from "./cascade-face-detector"
+import type { Detector, DetectorId } from "./types"
+import { canRunInWorker, createWorkerDetector } from "./vision-worker"
+
+export interface DetectorSettings {
+  // Tuning for the heuristic face cascade
+  cascade: CascadeOptions
+}
+
+export interface DetectorOption {
+  id: DetectorId
+  label: string
+  description: string
+  isSupported: () => boolean
+  create: (settings: DetectorSettings) => Detector
+}
+
+export const DETECTOR_OPTIONS: DetectorOption[] = [
+  {
+    id: "heuristic",
+    label: "Heuristic",
+    description: "Haar-like cascade for faces, skin color and motion for hands. Works everywhere, boxes only.",
+    isSupported: () => true,
+    create: ({ cascade }) =>
+      canRunInWorker() ? createWorkerDetector("heuristic", cascade) : createHeuristicDetector(cascade),
+  },
+  {
+    id: "shape-detection",
+    label: "Shape Detection API",
+    description: "The browser's built-in face detector, with heuristic hands.",
+    isSupported: isShapeDetectionSupported,
+    create: ({ cascade }) =>
+      canRunInWorker() ? createWorkerDetector("shape-detection", cascade) : createShapeDetectionDetector(),
+  },
+  {
+    id: "mediapipe",
+    label: "MediaPipe",
+    description:
+      "468-point face mesh and 21-point hand landmarks with handedness. Needs WebGL and the self-hosted models.",
+    isSupported: () => typeof WebAssembly !== "undefined",
+    create: createMediaPipeDetector,
+  },
+]
+
+export const getDetectorOption = (id: DetectorId) =>
+  DETECTOR_OPTIONS.find((option) => option.id === id) ?? DETECTOR_OPTIONS[0]
+
+// The best detector available without downloading anything, matching the old automatic choice
+export const getDefaultDetectorId = (): DetectorId => (isShapeDetectionSupported() ? "shape-detection" : "heuristic")
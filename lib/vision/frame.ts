@@ -0,0 +1,45 @@
+import type { VisionFrame } from "./types"
+
+// Pixel-based detectors work on a half-size copy of the frame. It is drawn at most once per tick
+// and shared by every detector that asks for it.
+export const FRAME_DOWNSCALE = 2
+
+type ScratchContext = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D
+
+// OffscreenCanvas where available (always in the vision worker), a detached canvas otherwise
+const createScratchContext = (): ScratchContext => {
+  const canvas = typeof OffscreenCanvas !== "undefined" ? new OffscreenCanvas(1, 1) : document.createElement("canvas")
+  const context = canvas.getContext("2d", { willReadFrequently: true }) as ScratchContext | null
+  if (!context) throw new Error("Canvas 2D context unavailable")
+  return context
+}
+
+// Returns a function that wraps a source image into a VisionFrame, reusing one scratch canvas
+export const createFrameFactory = () => {
+  let context: ScratchContext | null = null
+
+  return (source: VisionFrame["source"], width: number, height: number, timestamp: number): VisionFrame => {
+    let downscaled: ImageData | null = null
+
+    return {
+      source,
+      width,
+      height,
+      timestamp,
+      downscaled: () => {
+        if (downscaled) return downscaled
+        context ??= createScratchContext()
+        const { canvas } = context
+        const targetWidth = Math.round(width / FRAME_DOWNSCALE)
+        const targetHeight = Math.round(height / FRAME_DOWNSCALE)
+        if (canvas.width !== targetWidth || canvas.height !== targetHeight) {
+          canvas.width = targetWidth
+          canvas.height = targetHeight
+        }
+        context.drawImage(source, 0, 0, targetWidth, targetHeight)
+        downscaled = context.getImageData(0, 0, targetWidth, targetHeight)
+        return downscaled
+      },
+    }
+  }
+}
@@ -0,0 +1,40 @@
+import type { BoundingBox, Point2D } from "./types"
+
+// Intersection over union of two boxes, 0 when they don't touch
+export const boxOverlap = (rect1: BoundingBox, rect2: BoundingBox) => {
+  const x1 = Math.max(rect1.x, rect2.x)
+  const y1 = Math.max(rect1.y, rect2.y)
+  const x2 = Math.min(rect1.x + rect1.width, rect2.x + rect2.width)
+  const y2 = Math.min(rect1.y + rect1.height, rect2.y + rect2.height)
+
+  if (x2 <= x1 || y2 <= y1) return 0
+
+  const intersectionArea = (x2 - x1) * (y2 - y1)
+  const rect1Area = rect1.width * rect1.height
+  const rect2Area = rect2.width * rect2.height
+  const unionArea = rect1Area + rect2Area - intersectionArea
+
+  return intersectionArea / unionArea
+}
+
+export const boundsOf = (points: Point2D[]): BoundingBox => {
+  let minX = Infinity
+  let minY = Infinity
+  let maxX = -Infinity
+  let maxY = -Infinity
+  for (const point of points) {
+    minX = Math.min(minX, point.x)
+    minY = Math.min(minY, point.y)
+    maxX = Math.max(maxX, point.x)
+    maxY = Math.max(maxY, point.y)
+  }
+  return { x: minX, y: minY, width: maxX - minX, height: maxY - minY }
+}
+
+export const scaleBox = <T extends BoundingBox>(box: T, factor: number): T => ({
+  ...box,
+  x: box.x * factor,
+  y: box.y * factor,
+  width: box.width * factor,
+  height: box.height * factor,
+})
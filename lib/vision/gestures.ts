@@ -0,0 +1,195 @@
+import type { Handedness, HandDetection, Point2D } from "./types"
+
+// Hand gestures read from the 21 landmarks of tracked hands. Static poses come from which fingers
+// are extended, swipes from how fast the palm moves. Recognised gestures are broadcast as a window
+// event so other components (the 3D viewer) can react to them.
+
+export type HandPose = "open-palm" | "fist" | "pointing" | "thumbs-up" | "pinch" | "peace"
+
+// Directions as seen by the person in front of the camera, like handedness
+export type SwipeDirection = "left" | "right" | "up" | "down"
+
+export interface HandGesture {
+  trackId: number
+  handedness?: Handedness
+  // Null while the pose is unclear or the detector has no landmarks
+  pose: HandPose | null
+  // Only set on the frame the swipe completes
+  swipe: SwipeDirection | null
+  // Palm centre, normalized to 0-1 of the (unmirrored) frame
+  position: Point2D
+}
+
+export interface HandGestureFrame {
+  hands: HandGesture[]
+  timestamp: number
+}
+
+export const GESTURE_EVENT = "handGesture"
+
+export const POSE_LABELS: Record<HandPose, string> = {
+  "open-palm": "Open palm",
+  fist: "Fist",
+  pointing: "Pointing",
+  "thumbs-up": "Thumbs up",
+  pinch: "Pinch",
+  peace: "Peace",
+}
+
+// Landmark indices of the standard layout
+const WRIST = 0
+const THUMB = { ip: 3, tip: 4 }
+const FINGERS = [
+  { mcp: 5, pip: 6, tip: 8 },
+  { mcp: 9, pip: 10, tip: 12 },
+  { mcp: 13, pip: 14, tip: 16 },
+  { mcp: 17, pip: 18, tip: 20 },
+]
+const PALM = [0, 5, 9, 13, 17]
+
+// A pose must be seen this many detections in a row before it is reported
+const STABLE_FRAMES = 3
+// A swipe is the palm crossing this fraction of the frame within SWIPE_WINDOW_MS
+const SWIPE_DISTANCE = 0.25
+const SWIPE_WINDOW_MS = 400
+const SWIPE_COOLDOWN_MS = 600
+
+const distance = (a: Point2D, b: Point2D) => Math.hypot(a.x - b.x, a.y - b.y)
+
+// Classifies a single frame of landmarks, null when no pose fits
+export const classifyHandPose = (landmarks: Point2D[]): HandPose | null => {
+  if (landmarks.length < 21) return null
+
+  const wrist = landmarks[WRIST]
+  // Wrist to middle knuckle, keeps the thresholds independent of the hand's distance to the camera
+  const palmSize = distance(wrist, landmarks[FINGERS[1].mcp])
+  if (palmSize === 0) return null
+
+  // A finger is extended when its tip is clearly further from the wrist than its middle joint
+  const extended = FINGERS.map(
+    ({ pip, tip }) => distance(wrist, landmarks[tip]) > distance(wrist, landmarks[pip]) * 1.15,
+  )
+  const curled = FINGERS.map(({ pip, tip }) => distance(wrist, landmarks[tip]) < distance(wrist, landmarks[pip]))
+
+  // Thumb and index tips touching, with the other fingers still open. A fist with the thumb tucked
+  // over the index finger also brings the two tips together.
+  const thumbTip = landmarks[THUMB.tip]
+  const pinching = distance(thumbTip, landmarks[FINGERS[0].tip]) < palmSize * 0.25
+  if (pinching && !curled[1] && !curled[2] && !curled[3]) return "pinch"
+
+  const thumbOut = distance(thumbTip, landmarks[FINGERS[0].mcp]) > palmSize * 0.6
+  const [index, middle] = extended
+
+  if (extended.every(Boolean) && thumbOut) return "open-palm"
+  if (curled.every(Boolean)) {
+    const thumbUp = thumbOut && thumbTip.y < landmarks[THUMB.ip].y && thumbTip.y < landmarks[FINGERS[0].mcp].y
+    return thumbUp ? "thumbs-up" : "fist"
+  }
+  if (index && !middle && curled[2] && curled[3]) return "pointing"
+  if (index && middle && curled[2] && curled[3]) return "peace"
+  return null
+}
+
+interface HandState {
+  candidate: HandPose | null
+  candidateFrames: number
+  pose: HandPose | null
+  // Recent palm positions for swipe detection
+  history: { position: Point2D; timestamp: number }[]
+  lastSwipe: number
+}
+
+const palmCenter = (hand: HandDetection): Point2D => {
+  if (hand.landmarks && hand.landmarks.length >= 21) {
+    const points = PALM.map((index) => hand.landmarks![index])
+    return {
+      x: points.reduce((sum, point) => sum + point.x, 0) / points.length,
+      y: points.reduce((sum, point) => sum + point.y, 0) / points.length,
+    }
+  }
+  return { x: hand.x + hand.width / 2, y: hand.y + hand.height / 2 }
+}
+
+const detectSwipe = (state: HandState, timestamp: number): SwipeDirection | null => {
+  if (timestamp - state.lastSwipe < SWIPE_COOLDOWN_MS || state.history.length < 2) return null
+  const start = state.history[0].position
+  const end = state.history[state.history.length - 1].position
+  const dx = end.x - start.x
+  const dy = end.y - start.y
+
+  // Mostly along one axis, so diagonal drifts don't count
+  if (Math.abs(dx) >= SWIPE_DISTANCE && Math.abs(dx) > Math.abs(dy) * 2) {
+    // The frame is unmirrored: moving right in the image is the person's left
+    return dx > 0 ? "left" : "right"
+  }
+  if (Math.abs(dy) >= SWIPE_DISTANCE && Math.abs(dy) > Math.abs(dx) * 2) return dy > 0 ? "down" : "up"
+  return null
+}
+
+// Keeps per-track state so poses are debounced over a few frames and swipes can be measured
+export const createGestureRecognizer = () => {
+  const states = new Map<number, HandState>()
+
+  return {
+    update(hands: HandDetection[], width: number, height: number, timestamp: number): HandGestureFrame {
+      const seen = new Set<number>()
+      const gestures: HandGesture[] = []
+
+      for (const hand of hands) {
+        if (hand.trackId === undefined) continue
+        seen.add(hand.trackId)
+        let state = states.get(hand.trackId)
+        if (!state) {
+          state = { candidate: null, candidateFrames: 0, pose: null, history: [], lastSwipe: -Infinity }
+          states.set(hand.trackId, state)
+        }
+
+        const pose = hand.landmarks ? classifyHandPose(hand.landmarks) : null
+        state.candidateFrames = pose === state.candidate ? state.candidateFrames + 1 : 1
+        state.candidate = pose
+        if (state.candidateFrames >= STABLE_FRAMES) state.pose = pose
+
+        const center = palmCenter(hand)
+        const position = { x: center.x / width, y: center.y / height }
+        state.history.push({ position, timestamp })
+        state.history = state.history.filter((entry) => timestamp - entry.timestamp <= SWIPE_WINDOW_MS)
+
+        // Pinching and fists are for dragging, their movement isn't a swipe
+        let swipe: SwipeDirection | null = null
+        if (state.pose !== "pinch" && state.pose !== "fist") {
+          swipe = detectSwipe(state, timestamp)
+          if (swipe) {
+            state.lastSwipe = timestamp
+            state.history = []
+          }
+        }
+
+        gestures.push({ trackId: hand.trackId, handedness: hand.handedness, pose: state.pose, swipe, position })
+      }
+
+      // Forget hands the tracker dropped
+      for (const trackId of states.keys()) {
+        if (!seen.has(trackId)) states.delete(trackId)
+      }
+
+      return { hands: gestures, timestamp }
+    },
+    reset() {
+      states.clear()
+    },
+  }
+}
+
+export type GestureRecognizer = ReturnType<typeof createGestureRecognizer>
+
+export const dispatchHandGestures = (frame: HandGestureFrame) => {
+  window.dispatchEvent(new CustomEvent<HandGestureFrame>(GESTURE_EVENT, { detail: frame }))
+}
+
+// Subscribes to recognised gestures (one call per detection while hands are in view, plus an empty
+// frame when they leave), returns the unsubscribe function
+export const onHandGestures = (listener: (frame: HandGestureFrame) => void) => {
+  const handleGestures = (event: Event) => listener((event as CustomEvent<HandGestureFrame>).detail)
+  window.addEventListener(GESTURE_EVENT, handleGestures)
+  return () => window.removeEventListener(GESTURE_EVENT, handleGestures)
+}
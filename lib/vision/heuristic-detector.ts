@@ -0,0 +1,180 @@
+import { DEFAULT_CASCADE_OPTIONS, detectCascadeFaces, type CascadeOptions } from "./cascade-face-detector"
+import { FRAME_DOWNSCALE } from "./frame"
+import { boxOverlap, scaleBox } from "./geometry"
+import type { BoundingBox, Detector, HandDetection, VisionFrame } from "./types"
+
+// Fallbacks that need nothing but a canvas: a Haar-like cascade for faces (see cascade-face-detector.ts)
+// and skin color combined with frame-to-frame motion for hands. Both run on the frame's downscaled copy.
+
+const detectMotion = (
+  currentData: Uint8ClampedArray,
+  previousData: Uint8ClampedArray,
+  width: number,
+  height: number,
+) => {
+  const motionRegions: BoundingBox[] = []
+  const threshold = 25
+  const blockSize = 16
+
+  for (let y = 0; y < height - blockSize; y += blockSize) {
+    for (let x = 0; x < width - blockSize; x += blockSize) {
+      let motionSum = 0
+      let pixelCount = 0
+
+      for (let dy = 0; dy < blockSize; dy++) {
+        for (let dx = 0; dx < blockSize; dx++) {
+          const idx = ((y + dy) * width + (x + dx)) * 4
+          if (idx < currentData.length && idx < previousData.length) {
+            const currentGray = (currentData[idx] + currentData[idx + 1] + currentData[idx + 2]) / 3
+            const previousGray = (previousData[idx] + previousData[idx + 1] + previousData[idx + 2]) / 3
+            motionSum += Math.abs(currentGray - previousGray)
+            pixelCount++
+          }
+        }
+      }
+
+      if (pixelCount > 0 && motionSum / pixelCount > threshold) {
+        motionRegions.push({ x, y, width: blockSize, height: blockSize })
+      }
+    }
+  }
+
+  return motionRegions
+}
+
+const rgbToYuv = (r: number, g: number, b: number) => {
+  const y = 0.299 * r + 0.587 * g + 0.114 * b
+  const u = -0.169 * r - 0.331 * g + 0.5 * b
+  const v = 0.5 * r - 0.419 * g - 0.081 * b
+  return { y, u, v }
+}
+
+const rgbToHsv = (r: number, g: number, b: number) => {
+  r /= 255
+  g /= 255
+  b /= 255
+
+  const max = Math.max(r, g, b)
+  const min = Math.min(r, g, b)
+  const diff = max - min
+
+  let h = 0
+  if (diff !== 0) {
+    if (max === r) h = ((g - b) / diff) % 6
+    else if (max === g) h = (b - r) / diff + 2
+    else h = (r - g) / diff + 4
+  }
+  h = Math.round(h * 60)
+  if (h < 0) h += 360
+
+  const s = max === 0 ? 0 : diff / max
+  const v = max
+
+  return { h, s, v }
+}
+
+const isAdvancedSkinColor = (r: number, g: number, b: number): boolean => {
+  // Enhanced skin color detection
+  const yuv = rgbToYuv(r, g, b)
+  const hsv = rgbToHsv(r, g, b)
+
+  const yuvSkin = yuv.u >= -20 && yuv.u <= 30 && yuv.v >= -15 && yuv.v <= 25
+  const hsvSkin = hsv.h >= 0 && hsv.h <= 60 && hsv.s >= 0.2 && hsv.s <= 0.8
+  const rgbSkin =
+    r > 85 && g > 35 && b > 15 && Math.max(r, g, b) - Math.min(r, g, b) > 12 && Math.abs(r - g) > 12 && r > g && r > b
+
+  return yuvSkin || hsvSkin || rgbSkin
+}
+
+const detectSkinRegions = (data: Uint8ClampedArray, width: number, height: number) => {
+  const skinRegions: BoundingBox[] = []
+  const blockSize = 12
+
+  for (let y = 0; y < height - blockSize; y += blockSize) {
+    for (let x = 0; x < width - blockSize; x += blockSize) {
+      let skinPixels = 0
+      let totalPixels = 0
+
+      for (let dy = 0; dy < blockSize; dy++) {
+        for (let dx = 0; dx < blockSize; dx++) {
+          const idx = ((y + dy) * width + (x + dx)) * 4
+          if (idx < data.length) {
+            if (isAdvancedSkinColor(data[idx], data[idx + 1], data[idx + 2])) {
+              skinPixels++
+            }
+            totalPixels++
+          }
+        }
+      }
+
+      if (totalPixels > 0 && skinPixels / totalPixels > 0.65) {
+        skinRegions.push({ x, y, width: blockSize, height: blockSize })
+      }
+    }
+  }
+
+  return skinRegions
+}
+
+const combineMotionAndSkin = (motionRegions: BoundingBox[], skinRegions: BoundingBox[]) => {
+  const combined: BoundingBox[] = []
+
+  for (const motion of motionRegions) {
+    for (const skin of skinRegions) {
+      if (boxOverlap(motion, skin) > 0.25) {
+        const minX = Math.min(motion.x, skin.x)
+        const minY = Math.min(motion.y, skin.y)
+        const maxX = Math.max(motion.x + motion.width, skin.x + skin.width)
+        const maxY = Math.max(motion.y + motion.height, skin.y + skin.height)
+
+        combined.push({ x: minX, y: minY, width: maxX - minX, height: maxY - minY })
+      }
+    }
+  }
+
+  return combined
+}
+
+const isHandLikeShape = (region: BoundingBox) => {
+  const aspectRatio = region.width / region.height
+  const area = region.width * region.height
+  return aspectRatio > 0.4 && aspectRatio < 2.5 && area > 300 && area < 8000
+}
+
+export const detectHeuristicHands = (image: ImageData, previous: ImageData | null): HandDetection[] => {
+  const { data, width, height } = image
+
+  // Motion detection for hands
+  const motionRegions = previous ? detectMotion(data, previous.data, width, height) : []
+
+  // Skin color detection
+  const skinRegions = detectSkinRegions(data, width, height)
+
+  return combineMotionAndSkin(motionRegions, skinRegions).filter(isHandLikeShape)
+}
+
+// A null cascade skips faces, for detectors that only borrow the hand heuristic
+export const createHeuristicDetector = (cascade: CascadeOptions | null = DEFAULT_CASCADE_OPTIONS): Detector => {
+  // Kept for motion detection, dropped when the frame size changes
+  let previousFrame: ImageData | null = null
+
+  return {
+    id: "heuristic",
+    async init() {},
+    async detect(frame: VisionFrame) {
+      const image = frame.downscaled()
+      if (previousFrame && (previousFrame.width !== image.width || previousFrame.height !== image.height)) {
+        previousFrame = null
+      }
+
+      const faces = cascade ? detectCascadeFaces(image, cascade).map((face) => scaleBox(face, FRAME_DOWNSCALE)) : []
+      const hands = detectHeuristicHands(image, previousFrame).map((hand) => scaleBox(hand, FRAME_DOWNSCALE))
+      previousFrame = image
+
+      return { faces, hands }
+    },
+    dispose() {
+      previousFrame = null
+    },
+  }
+}
@@ -0,0 +1,53 @@
+// Summed-area tables: any rectangle's sum in four lookups, whatever its size. The squared table
+// gives the window variance, which the cascade uses to normalize its features for lighting.
+
+// Structural subset of ImageData, so the same code runs on decoded images in Node
+export interface RGBAImage {
+  data: Uint8ClampedArray | Uint8Array
+  width: number
+  height: number
+}
+
+export interface IntegralImage {
+  // (width + 1) x (height + 1), row 0 and column 0 are zero
+  sum: Float64Array
+  squares: Float64Array
+  width: number
+  height: number
+}
+
+export const toGrayscale = ({ data, width, height }: RGBAImage) => {
+  const gray = new Uint8Array(width * height)
+  for (let i = 0, p = 0; p < gray.length; i += 4, p++) {
+    gray[p] = (0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2] + 0.5) | 0
+  }
+  return gray
+}
+
+export const computeIntegralImage = (gray: Uint8Array, width: number, height: number): IntegralImage => {
+  const stride = width + 1
+  const sum = new Float64Array(stride * (height + 1))
+  const squares = new Float64Array(stride * (height + 1))
+
+  for (let y = 0; y < height; y++) {
+    let rowSum = 0
+    let rowSquares = 0
+    for (let x = 0; x < width; x++) {
+      const value = gray[y * width + x]
+      rowSum += value
+      rowSquares += value * value
+      const index = (y + 1) * stride + x + 1
+      sum[index] = sum[index - stride] + rowSum
+      squares[index] = squares[index - stride] + rowSquares
+    }
+  }
+
+  return { sum, squares, width, height }
+}
+
+// Sum over [x, x + width) x [y, y + height) of one of the tables
+export const rectSum = (table: Float64Array, stride: number, x: number, y: number, width: number, height: number) => {
+  const top = y * stride
+  const bottom = (y + height) * stride
+  return table[bottom + x + width] - table[bottom + x] - table[top + x + width] + table[top + x]
+}
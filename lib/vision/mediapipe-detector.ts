@@ -0,0 +1,155 @@
+import { boundsOf } from "./geometry"
+import type { Detector, Detections, Handedness, Point2D, VisionFrame } from "./types"
+
+// MediaPipe Hands and Face Mesh (the script-tag "solutions" builds). Both expose a global class,
+// run their graph in WASM and report results through a callback registered with onResults.
+// Scripts, WASM and models are served from public/mediapipe, see scripts/fetch-mediapipe-assets.mjs.
+
+const MEDIAPIPE_BASE_URL = "/mediapipe"
+
+interface NormalizedLandmark {
+  x: number
+  y: number
+  z: number
+}
+
+interface Classification {
+  index: number
+  score: number
+  label: string
+}
+
+interface SolutionResults {
+  multiHandLandmarks?: NormalizedLandmark[][]
+  multiHandedness?: Classification[]
+  multiFaceLandmarks?: NormalizedLandmark[][]
+}
+
+interface Solution {
+  setOptions(options: Record<string, unknown>): void
+  onResults(callback: (results: SolutionResults) => void): void
+  initialize(): Promise<void>
+  send(inputs: { image: HTMLVideoElement | ImageBitmap }): Promise<void>
+  close(): Promise<void>
+}
+
+type SolutionConstructor = new (config: { locateFile: (file: string) => string }) => Solution
+
+const scriptLoads = new Map<string, Promise<void>>()
+
+const loadScript = (src: string) => {
+  let load = scriptLoads.get(src)
+  if (!load) {
+    load = new Promise<void>((resolve, reject) => {
+      const script = document.createElement("script")
+      script.src = src
+      script.onload = () => resolve()
+      script.onerror = () => {
+        scriptLoads.delete(src)
+        script.remove()
+        reject(new Error(`Could not load ${src}, run "pnpm mediapipe:assets" to download the MediaPipe files`))
+      }
+      document.head.appendChild(script)
+    })
+    scriptLoads.set(src, load)
+  }
+  return load
+}
+
+const createSolution = async (packageName: string, globalName: string) => {
+  await loadScript(`${MEDIAPIPE_BASE_URL}/${packageName}/${packageName}.js`)
+  const Solution = (window as unknown as Record<string, SolutionConstructor | undefined>)[globalName]
+  if (!Solution) throw new Error(`MediaPipe ${globalName} did not load`)
+  return new Solution({ locateFile: (file) => `${MEDIAPIPE_BASE_URL}/${packageName}/${file}` })
+}
+
+const toPixels = (landmarks: NormalizedLandmark[], frame: VisionFrame): Point2D[] =>
+  landmarks.map(({ x, y, z }) => ({ x: x * frame.width, y: y * frame.height, z: z * frame.width }))
+
+// MediaPipe labels hands as if the frame were mirrored like a selfie preview. The webcam frames
+// here are not, so the label is flipped to name the hand the person actually raised.
+const toHandedness = (classification?: Classification): Handedness | undefined => {
+  if (classification?.label === "Left") return "Right"
+  if (classification?.label === "Right") return "Left"
+  return undefined
+}
+
+// close() is async, a failed close must not surface as an unhandled rejection
+const closeSolution = (solution: Solution | null) => {
+  solution?.close().catch((error) => console.warn("Could not close MediaPipe solution:", error))
+}
+
+export const createMediaPipeDetector = (): Detector => {
+  let hands: Solution | null = null
+  let faceMesh: Solution | null = null
+  let ready = false
+  // onResults fires during send(), the latest results are picked up right after it resolves
+  let handResults: SolutionResults = {}
+  let faceResults: SolutionResults = {}
+
+  return {
+    id: "mediapipe",
+    async init() {
+      // Each solution is kept as soon as it exists so dispose() also frees a detector whose init failed.
+      // Both are awaited before failing, otherwise one could still arrive after the dispose.
+      const created = await Promise.allSettled([
+        createSolution("hands", "Hands").then((solution) => (hands = solution)),
+        createSolution("face_mesh", "FaceMesh").then((solution) => (faceMesh = solution)),
+      ])
+      const failed = created.find((result): result is PromiseRejectedResult => result.status === "rejected")
+      if (failed) throw failed.reason
+      if (!hands || !faceMesh) throw new Error("MediaPipe detector disposed during init")
+
+      hands.setOptions({
+        maxNumHands: 2,
+        modelComplexity: 1,
+        minDetectionConfidence: 0.5,
+        minTrackingConfidence: 0.5,
+      })
+      faceMesh.setOptions({
+        maxNumFaces: 3,
+        refineLandmarks: false,
+        minDetectionConfidence: 0.5,
+        minTrackingConfidence: 0.5,
+      })
+      hands.onResults((results) => {
+        handResults = results
+      })
+      faceMesh.onResults((results) => {
+        faceResults = results
+      })
+      await Promise.all([hands.initialize(), faceMesh.initialize()])
+      ready = true
+    },
+    async detect(frame: VisionFrame): Promise<Detections> {
+      if (!ready || !hands || !faceMesh) throw new Error("MediaPipe detector used before init")
+
+      // The two graphs share the WASM runtime's GL context, so they run one after the other
+      await hands.send({ image: frame.source })
+      await faceMesh.send({ image: frame.source })
+
+      const faces = (faceResults.multiFaceLandmarks ?? []).map((landmarks) => {
+        const mesh = toPixels(landmarks, frame)
+        return { ...boundsOf(mesh), mesh }
+      })
+      const detectedHands = (handResults.multiHandLandmarks ?? []).map((landmarks, index) => {
+        const points = toPixels(landmarks, frame)
+        const classification = handResults.multiHandedness?.[index]
+        return {
+          ...boundsOf(points),
+          landmarks: points,
+          handedness: toHandedness(classification),
+          score: classification?.score,
+        }
+      })
+      return { faces, hands: detectedHands }
+    },
+    dispose() {
+      closeSolution(hands)
+      closeSolution(faceMesh)
+      ready = false
+      hands = null
+      faceMesh = null
+    },
+  }
+}
@@ -0,0 +1,53 @@
+import { createHeuristicDetector } from "./heuristic-detector"
+import type { Detector, VisionFrame } from "./types"
+
+// Faces from the browser's Shape Detection API (Chrome behind a flag, some Android builds). The API
+// has no hand detector, so hands still come from the heuristic one.
+
+interface DetectedFace {
+  boundingBox: DOMRectReadOnly
+}
+
+interface FaceDetectorInstance {
+  detect(image: ImageBitmapSource): Promise<DetectedFace[]>
+}
+
+type FaceDetectorConstructor = new (options?: { maxDetectedFaces?: number; fastMode?: boolean }) => FaceDetectorInstance
+
+const getFaceDetectorConstructor = () => (globalThis as { FaceDetector?: FaceDetectorConstructor }).FaceDetector ?? null
+
+export const isShapeDetectionSupported = () => getFaceDetectorConstructor() !== null
+
+export const createShapeDetectionDetector = (): Detector => {
+  let faceDetector: FaceDetectorInstance | null = null
+  const handDetector = createHeuristicDetector(null)
+
+  return {
+    id: "shape-detection",
+    async init() {
+      const FaceDetector = getFaceDetectorConstructor()
+      if (!FaceDetector) throw new Error("The Shape Detection API is not available in this browser")
+      faceDetector = new FaceDetector({ maxDetectedFaces: 5, fastMode: false })
+      await handDetector.init()
+    },
+    async detect(frame: VisionFrame) {
+      if (!faceDetector) throw new Error("Shape Detection detector used before init")
+
+      const [detectedFaces, { hands }] = await Promise.all([
+        faceDetector.detect(frame.source),
+        handDetector.detect(frame),
+      ])
+      const faces = detectedFaces.map(({ boundingBox }) => ({
+        x: boundingBox.x,
+        y: boundingBox.y,
+        width: boundingBox.width,
+        height: boundingBox.height,
+      }))
+      return { faces, hands }
+    },
+    dispose() {
+      faceDetector = null
+      handDetector.dispose()
+    },
+  }
+}
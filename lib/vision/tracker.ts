@@ -0,0 +1,157 @@
+import { boxOverlap } from "./geometry"
+import type { BoundingBox, Detections, FaceDetection, HandDetection, Point2D } from "./types"
+
+// Sits between a detector and the overlay: matches each frame's detections to existing tracks by
+// overlap (falling back to centroid distance for fast movement), smooths boxes and landmarks with an
+// exponential moving average and keeps a track alive through short gaps in detection.
+
+export interface TrackerOptions {
+  // Boxes overlapping at least this much (intersection over union) belong to the same track
+  minOverlap: number
+  // Centroids closer than this fraction of the box size also match, for movement between frames
+  maxCentroidDistance: number
+  // How long a track survives without a matching detection
+  maxMissMs: number
+  // Weight of the newest detection, 1 disables smoothing
+  smoothing: number
+}
+
+export const DEFAULT_TRACKER_OPTIONS: TrackerOptions = {
+  minOverlap: 0.2,
+  maxCentroidDistance: 0.5,
+  maxMissMs: 500,
+  smoothing: 0.5,
+}
+
+export type TrackKind = "face" | "hand"
+
+export interface TrackInfo {
+  id: number
+  kind: TrackKind
+  lifetimeMs: number
+  // True while the track is coasting on its last state
+  missing: boolean
+}
+
+interface Track<T extends BoundingBox> {
+  id: number
+  state: T
+  firstSeen: number
+  lastSeen: number
+}
+
+const lerp = (from: number, to: number, weight: number) => from + (to - from) * weight
+
+const smoothPoints = (previous: Point2D[] | undefined, next: Point2D[] | undefined, weight: number) =>
+  previous && next && previous.length === next.length
+    ? next.map((point, index) => ({
+        x: lerp(previous[index].x, point.x, weight),
+        y: lerp(previous[index].y, point.y, weight),
+        z: point.z === undefined ? undefined : lerp(previous[index].z ?? point.z, point.z, weight),
+      }))
+    : next
+
+const smoothDetection = <T extends FaceDetection | HandDetection>(previous: T, next: T, weight: number): T => ({
+  ...next,
+  x: lerp(previous.x, next.x, weight),
+  y: lerp(previous.y, next.y, weight),
+  width: lerp(previous.width, next.width, weight),
+  height: lerp(previous.height, next.height, weight),
+  // Faces carry a mesh and hands landmarks, whichever is present is smoothed point by point
+  ...("mesh" in next && { mesh: smoothPoints((previous as FaceDetection).mesh, next.mesh, weight) }),
+  ...("landmarks" in next && {
+    landmarks: smoothPoints((previous as HandDetection).landmarks, next.landmarks, weight),
+  }),
+})
+
+const centroidDistance = (a: BoundingBox, b: BoundingBox) =>
+  Math.hypot(a.x + a.width / 2 - (b.x + b.width / 2), a.y + a.height / 2 - (b.y + b.height / 2)) /
+  Math.max(a.width, a.height, b.width, b.height, 1)
+
+const updateTracks = <T extends FaceDetection | HandDetection>(
+  tracks: Track<T>[],
+  detections: T[],
+  timestamp: number,
+  options: TrackerOptions,
+  nextId: () => number,
+) => {
+  // Every plausible pairing, best first, then assigned greedily
+  const pairs: { track: number; detection: number; score: number }[] = []
+  tracks.forEach((track, trackIndex) => {
+    detections.forEach((detection, detectionIndex) => {
+      const overlap = boxOverlap(track.state, detection)
+      const distance = centroidDistance(track.state, detection)
+      if (overlap >= options.minOverlap || distance <= options.maxCentroidDistance) {
+        pairs.push({ track: trackIndex, detection: detectionIndex, score: overlap + (1 - distance) * 0.01 })
+      }
+    })
+  })
+  pairs.sort((a, b) => b.score - a.score)
+
+  const matchedTracks = new Set<number>()
+  const matchedDetections = new Set<number>()
+  const updated: Track<T>[] = []
+  for (const pair of pairs) {
+    if (matchedTracks.has(pair.track) || matchedDetections.has(pair.detection)) continue
+    matchedTracks.add(pair.track)
+    matchedDetections.add(pair.detection)
+    const track = tracks[pair.track]
+    updated.push({
+      ...track,
+      state: smoothDetection(track.state, detections[pair.detection], options.smoothing),
+      lastSeen: timestamp,
+    })
+  }
+
+  // Unmatched tracks coast for a while, unmatched detections start new tracks
+  tracks.forEach((track, index) => {
+    if (!matchedTracks.has(index) && timestamp - track.lastSeen <= options.maxMissMs) updated.push(track)
+  })
+  detections.forEach((detection, index) => {
+    if (!matchedDetections.has(index)) {
+      updated.push({ id: nextId(), state: detection, firstSeen: timestamp, lastSeen: timestamp })
+    }
+  })
+
+  return updated.sort((a, b) => a.id - b.id)
+}
+
+export const createTracker = (options: TrackerOptions = DEFAULT_TRACKER_OPTIONS) => {
+  let faceTracks: Track<FaceDetection>[] = []
+  let handTracks: Track<HandDetection>[] = []
+  let lastId = 0
+  let lastUpdate = 0
+  const nextId = () => ++lastId
+
+  const info = (kind: TrackKind, track: Track<BoundingBox>, now: number): TrackInfo => ({
+    id: track.id,
+    kind,
+    lifetimeMs: now - track.firstSeen,
+    missing: track.lastSeen < lastUpdate,
+  })
+
+  return {
+    // Feeds one frame's detections, returns the tracked (smoothed, id-tagged) detections to draw
+    update(detections: Detections, timestamp: number): Detections {
+      lastUpdate = timestamp
+      faceTracks = updateTracks(faceTracks, detections.faces, timestamp, options, nextId)
+      handTracks = updateTracks(handTracks, detections.hands, timestamp, options, nextId)
+      return {
+        faces: faceTracks.map((track) => ({ ...track.state, trackId: track.id })),
+        hands: handTracks.map((track) => ({ ...track.state, trackId: track.id })),
+      }
+    },
+    tracks(now: number): TrackInfo[] {
+      return [
+        ...faceTracks.map((track) => info("face", track, now)),
+        ...handTracks.map((track) => info("hand", track, now)),
+      ]
+    },
+    reset() {
+      faceTracks = []
+      handTracks = []
+    },
+  }
+}
+
+export type Tracker = ReturnType<typeof createTracker>
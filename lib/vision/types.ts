@@ -0,0 +1,59 @@
+// Shared types for the webcam detectors. Coordinates are in pixels of the full-resolution frame.
+
+export interface Point2D {
+  x: number
+  y: number
+  // Relative depth when the detector provides one
+  z?: number
+}
+
+export interface BoundingBox {
+  x: number
+  y: number
+  width: number
+  height: number
+  // Stable across frames once the tracker has seen the object
+  trackId?: number
+}
+
+export interface FaceDetection extends BoundingBox {
+  score?: number
+  // The 468 MediaPipe face mesh points
+  mesh?: Point2D[]
+}
+
+// As seen by the person in front of the camera, not as the hand appears in the unmirrored frame
+export type Handedness = "Left" | "Right"
+
+export interface HandDetection extends BoundingBox {
+  score?: number
+  // The 21 hand landmarks: wrist, then four points per finger from thumb to pinky
+  landmarks?: Point2D[]
+  handedness?: Handedness
+}
+
+export interface Detections {
+  faces: FaceDetection[]
+  hands: HandDetection[]
+}
+
+export interface VisionFrame {
+  source: HTMLVideoElement | ImageBitmap
+  width: number
+  height: number
+  timestamp: number
+  // RGBA copy scaled down by FRAME_DOWNSCALE, computed on first use
+  downscaled: () => ImageData
+}
+
+export type DetectorId = "heuristic" | "shape-detection" | "mediapipe"
+
+export interface Detector {
+  readonly id: DetectorId
+  // Loads models or scripts, must resolve before the first detect call
+  init(): Promise<void>
+  detect(frame: VisionFrame): Promise<Detections>
+  dispose(): void
+}
+
+export const NO_DETECTIONS: Detections = { faces: [], hands: [] }
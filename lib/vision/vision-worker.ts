@@ -0,0 +1,92 @@
+import type { CascadeOptions } from "./cascade-face-detector"
+import type { Detections, Detector, DetectorId } from "./types"
+
+// Runs a pixel-based detector in a dedicated worker. Frames are transferred as ImageBitmaps and
+// downscaled there on an OffscreenCanvas, so none of the per-pixel work touches the main thread.
+
+// MediaPipe loads its runtime through script tags and stays on the main thread
+export type WorkerDetectorId = Exclude<DetectorId, "mediapipe">
+
+export type VisionWorkerRequest =
+  | { id: number; type: "init"; detectorId: WorkerDetectorId; cascade: CascadeOptions }
+  | { id: number; type: "detect"; bitmap: ImageBitmap; width: number; height: number; timestamp: number }
+
+export type VisionWorkerResponse =
+  | { id: number; type: "ready" }
+  | { id: number; type: "detections"; detections: Detections }
+  | { id: number; type: "error"; message: string }
+
+type PendingRequest = {
+  resolve: (response: VisionWorkerResponse) => void
+  reject: (error: Error) => void
+}
+
+export const canRunInWorker = () =>
+  typeof Worker !== "undefined" && typeof OffscreenCanvas !== "undefined" && typeof createImageBitmap !== "undefined"
+
+export const createWorkerDetector = (detectorId: WorkerDetectorId, cascade: CascadeOptions): Detector => {
+  let worker: Worker | null = null
+  let nextRequestId = 0
+  const pending = new Map<number, PendingRequest>()
+
+  const failPending = (message: string) => {
+    for (const request of pending.values()) {
+      request.reject(new Error(message))
+    }
+    pending.clear()
+  }
+
+  const postRequest = (request: VisionWorkerRequest, transfer: Transferable[] = []) => {
+    const target = worker
+    if (!target) return Promise.reject(new Error("Vision worker is not running"))
+
+    return new Promise<VisionWorkerResponse>((resolve, reject) => {
+      pending.set(request.id, { resolve, reject })
+      target.postMessage(request, transfer)
+    })
+  }
+
+  return {
+    id: detectorId,
+    async init() {
+      worker = new Worker(new URL("../workers/vision.worker.ts", import.meta.url))
+      worker.onmessage = (event: MessageEvent<VisionWorkerResponse>) => {
+        const request = pending.get(event.data.id)
+        if (!request) return
+        pending.delete(event.data.id)
+
+        if (event.data.type === "error") {
+          request.reject(new Error(event.data.message))
+        } else {
+          request.resolve(event.data)
+        }
+      }
+      worker.onerror = (event) => failPending(event.message || "Vision worker failed")
+
+      const response = await postRequest({ id: nextRequestId++, type: "init", detectorId, cascade })
+      if (response.type !== "ready") throw new Error("Unexpected worker response")
+    },
+    async detect(frame) {
+      // A new bitmap per request, since transferring hands it over to the worker
+      const bitmap = await createImageBitmap(frame.source)
+      const response = await postRequest(
+        {
+          id: nextRequestId++,
+          type: "detect",
+          bitmap,
+          width: frame.width,
+          height: frame.height,
+          timestamp: frame.timestamp,
+        },
+        [bitmap],
+      )
+      if (response.type !== "detections") throw new Error("Unexpected worker response")
+      return response.detections
+    },
+    dispose() {
+      worker?.terminate()
+      worker = null
+      failPending("Vision worker was stopped")
+    },
+  }
+}
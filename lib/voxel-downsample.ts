@@ -0,0 +1,129 @@
+import { compactValidPoints, countValidPoints, isValidPoint } from "./point-cloud"
+
+export interface DecimatedCloud {
+  vertices: Float32Array
+  colors: Float32Array
+}
+
+// Buckets points into cubic voxels and keeps one averaged point (position and color) per occupied voxel.
+// Missing grid samples (NaN positions) are left out.
+export const voxelGridDownsample = (
+  vertices: ArrayLike<number>,
+  colors: ArrayLike<number>,
+  voxelSize: number,
+): DecimatedCloud => {
+  const count = Math.floor(vertices.length / 3)
+  let minX = Infinity
+  let minY = Infinity
+  let minZ = Infinity
+  for (let i = 0; i < count; i++) {
+    if (!isValidPoint(vertices, i)) continue
+    minX = Math.min(minX, vertices[i * 3])
+    minY = Math.min(minY, vertices[i * 3 + 1])
+    minZ = Math.min(minZ, vertices[i * 3 + 2])
+  }
+
+  // voxel key -> slot in the accumulator arrays
+  const slots = new Map<number, number>()
+  const sums: number[] = []
+  const counts: number[] = []
+
+  for (let i = 0; i < count; i++) {
+    if (!isValidPoint(vertices, i)) continue
+    const x = vertices[i * 3]
+    const y = vertices[i * 3 + 1]
+    const z = vertices[i * 3 + 2]
+    const vx = Math.floor((x - minX) / voxelSize)
+    const vy = Math.floor((y - minY) / voxelSize)
+    const vz = Math.floor((z - minZ) / voxelSize)
+    // Keys stay exact below 2^53, which covers 2^17 voxels per axis
+    const key = (vx * 131072 + vy) * 131072 + vz
+
+    let slot = slots.get(key)
+    if (slot === undefined) {
+      slot = counts.length
+      slots.set(key, slot)
+      counts.push(0)
+      sums.push(0, 0, 0, 0, 0, 0)
+    }
+
+    const base = slot * 6
+    sums[base] += x
+    sums[base + 1] += y
+    sums[base + 2] += z
+    sums[base + 3] += colors[i * 3] ?? 1
+    sums[base + 4] += colors[i * 3 + 1] ?? 1
+    sums[base + 5] += colors[i * 3 + 2] ?? 1
+    counts[slot]++
+  }
+
+  const outVertices = new Float32Array(counts.length * 3)
+  const outColors = new Float32Array(counts.length * 3)
+  for (let slot = 0; slot < counts.length; slot++) {
+    const base = slot * 6
+    const n = counts[slot]
+    outVertices[slot * 3] = sums[base] / n
+    outVertices[slot * 3 + 1] = sums[base + 1] / n
+    outVertices[slot * 3 + 2] = sums[base + 2] / n
+    outColors[slot * 3] = sums[base + 3] / n
+    outColors[slot * 3 + 1] = sums[base + 4] / n
+    outColors[slot * 3 + 2] = sums[base + 5] / n
+  }
+
+  return { vertices: outVertices, colors: outColors }
+}
+
+// Searches for the voxel size whose output lands just under the point budget
+export const downsampleToBudget = (
+  vertices: ArrayLike<number>,
+  colors: ArrayLike<number>,
+  targetPoints: number,
+  maxIterations = 8,
+): DecimatedCloud => {
+  const count = Math.floor(vertices.length / 3)
+  if (countValidPoints(vertices) <= targetPoints) return compactValidPoints(vertices, colors)
+
+  let minX = Infinity
+  let maxX = -Infinity
+  let minY = Infinity
+  let maxY = -Infinity
+  let minZ = Infinity
+  let maxZ = -Infinity
+  for (let i = 0; i < count; i++) {
+    if (!isValidPoint(vertices, i)) continue
+    minX = Math.min(minX, vertices[i * 3])
+    maxX = Math.max(maxX, vertices[i * 3])
+    minY = Math.min(minY, vertices[i * 3 + 1])
+    maxY = Math.max(maxY, vertices[i * 3 + 1])
+    minZ = Math.min(minZ, vertices[i * 3 + 2])
+    maxZ = Math.max(maxZ, vertices[i * 3 + 2])
+  }
+
+  const extent = Math.max(maxX - minX, maxY - minY, maxZ - minZ) || 1
+  // Clouds from images are mostly surfaces, so start from a 2D estimate of the cell size and
+  // search geometrically: doubling until under budget, then bisecting between the bounds
+  let low = 0
+  let high = Infinity
+  let voxelSize = extent / Math.sqrt(targetPoints)
+  let best: DecimatedCloud | null = null
+
+  for (let i = 0; i < maxIterations; i++) {
+    const result = voxelGridDownsample(vertices, colors, voxelSize)
+    const points = result.vertices.length / 3
+
+    if (points <= targetPoints) {
+      best = result
+      high = voxelSize
+      // Close enough to the budget, stop refining
+      if (points >= targetPoints * 0.9) break
+    } else {
+      low = voxelSize
+    }
+
+    if (high === Infinity) voxelSize = low * 2
+    else if (low === 0) voxelSize = high / 2
+    else voxelSize = Math.sqrt(low * high)
+  }
+
+  return best ?? voxelGridDownsample(vertices, colors, high === Infinity ? low * 2 : high)
+}
@@ -0,0 +1,32 @@
+import { buildLevelsOfDetail, decodeBinaryResponse, decodeConvertResponse } from "../point-cloud-decode"
+import type { PointCloudWorkerRequest, PointCloudWorkerResponse } from "../point-cloud-worker"
+
+const reply = (response: PointCloudWorkerResponse, transfer: ArrayBuffer[] = []) => {
+  self.postMessage(response, { transfer })
+}
+
+self.onmessage = (event: MessageEvent<PointCloudWorkerRequest>) => {
+  const request = event.data
+
+  try {
+    switch (request.type) {
+      case "parse": {
+        const { json, transfer } = decodeConvertResponse(request.text)
+        reply({ id: request.id, type: "parsed", json }, transfer)
+        break
+      }
+      case "parseBinary": {
+        const { json, transfer } = decodeBinaryResponse(request.buffer)
+        reply({ id: request.id, type: "parsed", json }, transfer)
+        break
+      }
+      case "decimate": {
+        const { levels, transfer } = buildLevelsOfDetail(request.vertices, request.colors, request.budgets)
+        reply({ id: request.id, type: "decimated", levels }, transfer)
+        break
+      }
+    }
+  } catch (error) {
+    reply({ id: request.id, type: "error", message: error instanceof Error ? error.message : String(error) })
+  }
+}
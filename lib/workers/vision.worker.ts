@@ -0,0 +1,43 @@
+import { createFrameFactory } from "../vision/frame"
+import { createHeuristicDetector } from "../vision/heuristic-detector"
+import { createShapeDetectionDetector } from "../vision/shape-detection-detector"
+import type { Detector } from "../vision/types"
+import type { VisionWorkerRequest, VisionWorkerResponse } from "../vision/vision-worker"
+
+let detector: Detector | null = null
+const createFrame = createFrameFactory()
+
+const reply = (response: VisionWorkerResponse) => {
+  self.postMessage(response)
+}
+
+self.onmessage = async (event: MessageEvent<VisionWorkerRequest>) => {
+  const request = event.data
+
+  try {
+    switch (request.type) {
+      case "init": {
+        detector?.dispose()
+        detector =
+          request.detectorId === "shape-detection"
+            ? createShapeDetectionDetector()
+            : createHeuristicDetector(request.cascade)
+        await detector.init()
+        reply({ id: request.id, type: "ready" })
+        break
+      }
+      case "detect": {
+        if (!detector) throw new Error("Vision worker used before init")
+        try {
+          const frame = createFrame(request.bitmap, request.width, request.height, request.timestamp)
+          reply({ id: request.id, type: "detections", detections: await detector.detect(frame) })
+        } finally {
+          request.bitmap.close()
+        }
+        break
+      }
+    }
+  } catch (error) {
+    reply({ id: request.id, type: "error", message: error instanceof Error ? error.message : String(error) })
+  }
+}
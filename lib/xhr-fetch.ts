@@ -0,0 +1,92 @@
+// fetch()-shaped wrapper around XMLHttpRequest, which unlike fetch() reports upload progress.
+// Resolves to a regular Response so callers can share their response handling with fetch().
+
+export interface XhrFetchInit {
+  method?: string
+  headers?: Headers
+  body?: XMLHttpRequestBodyInit | null
+  signal?: AbortSignal | null
+  timeoutMs?: number
+  onUploadProgress?: (loaded: number, total: number) => void
+  onDownloadProgress?: (loaded: number, total: number) => void
+}
+
+const parseResponseHeaders = (raw: string) => {
+  const headers = new Headers()
+  for (const line of raw.trim().split(/[\r\n]+/)) {
+    const separator = line.indexOf(":")
+    if (separator > 0) headers.append(line.slice(0, separator).trim(), line.slice(separator + 1).trim())
+  }
+  return headers
+}
+
+// Statuses whose Response must be constructed without a body
+const NULL_BODY_STATUSES = [101, 204, 205, 304]
+
+const namedError = (name: string, message: string) => {
+  const error = new Error(message)
+  error.name = name
+  return error
+}
+
+export const xhrFetch = (url: string, init: XhrFetchInit = {}) =>
+  new Promise<Response>((resolve, reject) => {
+    if (init.signal?.aborted) {
+      reject(namedError("AbortError", "Request aborted"))
+      return
+    }
+
+    const xhr = new XMLHttpRequest()
+    xhr.open(init.method ?? "GET", url)
+    xhr.responseType = "arraybuffer"
+    if (init.timeoutMs) xhr.timeout = init.timeoutMs
+    init.headers?.forEach((value, key) => xhr.setRequestHeader(key, value))
+
+    const handleAbort = () => xhr.abort()
+    init.signal?.addEventListener("abort", handleAbort)
+    const cleanup = () => init.signal?.removeEventListener("abort", handleAbort)
+
+    if (init.onUploadProgress) {
+      const onUploadProgress = init.onUploadProgress
+      xhr.upload.onprogress = (event) => onUploadProgress(event.loaded, event.lengthComputable ? event.total : 0)
+    }
+    if (init.onDownloadProgress) {
+      const onDownloadProgress = init.onDownloadProgress
+      xhr.onprogress = (event) => onDownloadProgress(event.loaded, event.lengthComputable ? event.total : 0)
+    }
+
+    xhr.onload = () => {
+      cleanup()
+      // Status 0 means the request never reached the server (CORS, offline)
+      if (xhr.status === 0) {
+        reject(new TypeError("Network request failed"))
+        return
+      }
+      // A throw in here would leave the promise pending forever, so it becomes a rejection
+      try {
+        resolve(
+          new Response(NULL_BODY_STATUSES.includes(xhr.status) ? null : (xhr.response as ArrayBuffer), {
+            status: xhr.status,
+            statusText: xhr.statusText,
+            headers: parseResponseHeaders(xhr.getAllResponseHeaders()),
+          }),
+        )
+      } catch (error) {
+        reject(error)
+      }
+    }
+    xhr.onerror = () => {
+      cleanup()
+      reject(new TypeError("Network request failed"))
+    }
+    xhr.ontimeout = () => {
+      cleanup()
+      reject(namedError("TimeoutError", `Request timed out after ${Math.round((init.timeoutMs ?? 0) / 1000)}s`))
+    }
+    xhr.onabort = () => {
+      cleanup()
+      reject(namedError("AbortError", "Request aborted"))
+    }
+
+    xhr.send(init.body ?? null)
+  })
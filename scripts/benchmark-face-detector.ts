@@ -0,0 +1,201 @@
+// Runs the cascade face detector on still images in Node and reports detections and timings.
+//
+//   pnpm bench:faces [--runs 20] [--scale-factor 1.2] [--min-neighbors 3] [--max-faces 3] image.png ...
+//
+// PNG (8-bit, non-interlaced) and binary PPM/PGM are read. Without images a synthetic face is used,
+// so the harness doubles as a smoke test for the cascade.
+
+import { readFileSync } from "node:fs"
+import { basename } from "node:path"
+import { inflateSync } from "node:zlib"
+import { DEFAULT_CASCADE_OPTIONS, detectCascadeFaces, type CascadeOptions } from "../lib/vision/cascade-face-detector"
+import type { RGBAImage } from "../lib/vision/integral-image"
+
+const PNG_SIGNATURE = "89504e470d0a1a0a"
+const PNG_CHANNELS: Record<number, number> = { 0: 1, 2: 3, 4: 2, 6: 4 }
+
+const paeth = (a: number, b: number, c: number) => {
+  const p = a + b - c
+  const pa = Math.abs(p - a)
+  const pb = Math.abs(p - b)
+  const pc = Math.abs(p - c)
+  return pa <= pb && pa <= pc ? a : pb <= pc ? b : c
+}
+
+const decodePng = (buffer: Buffer): RGBAImage => {
+  let offset = 8
+  let width = 0
+  let height = 0
+  let colorType = 0
+  const idat: Buffer[] = []
+
+  while (offset < buffer.length) {
+    const length = buffer.readUInt32BE(offset)
+    const type = buffer.toString("latin1", offset + 4, offset + 8)
+    const chunk = buffer.subarray(offset + 8, offset + 8 + length)
+    if (type === "IHDR") {
+      width = chunk.readUInt32BE(0)
+      height = chunk.readUInt32BE(4)
+      colorType = chunk[9]
+      if (chunk[8] !== 8 || chunk[12] !== 0) throw new Error("Only 8-bit, non-interlaced PNGs are supported")
+    } else if (type === "IDAT") {
+      idat.push(chunk)
+    } else if (type === "IEND") {
+      break
+    }
+    offset += 12 + length
+  }
+
+  const channels = PNG_CHANNELS[colorType]
+  if (!channels) throw new Error(`Unsupported PNG color type ${colorType}`)
+
+  const raw = inflateSync(Buffer.concat(idat))
+  const rowBytes = width * channels
+  const pixels = new Uint8Array(rowBytes * height)
+  for (let y = 0; y < height; y++) {
+    const filter = raw[y * (rowBytes + 1)]
+    const source = raw.subarray(y * (rowBytes + 1) + 1, (y + 1) * (rowBytes + 1))
+    const row = y * rowBytes
+    for (let x = 0; x < rowBytes; x++) {
+      const left = x >= channels ? pixels[row + x - channels] : 0
+      const up = y > 0 ? pixels[row - rowBytes + x] : 0
+      const upLeft = y > 0 && x >= channels ? pixels[row - rowBytes + x - channels] : 0
+      const predictor = [0, left, up, (left + up) >> 1, paeth(left, up, upLeft)][filter]
+      pixels[row + x] = (source[x] + predictor) & 0xff
+    }
+  }
+
+  const data = new Uint8Array(width * height * 4)
+  for (let i = 0; i < width * height; i++) {
+    const gray = channels <= 2
+    data[i * 4] = pixels[i * channels]
+    data[i * 4 + 1] = pixels[i * channels + (gray ? 0 : 1)]
+    data[i * 4 + 2] = pixels[i * channels + (gray ? 0 : 2)]
+    data[i * 4 + 3] = 255
+  }
+  return { data, width, height }
+}
+
+const decodeNetpbm = (buffer: Buffer): RGBAImage => {
+  // Header: magic, width, height, maxval, separated by whitespace with optional comments
+  const tokens: string[] = []
+  let offset = 0
+  while (tokens.length < 4) {
+    const header = buffer.toString("latin1", offset).match(/^(\s+|#[^\n]*\n|\S+)/)
+    if (!header) throw new Error("Truncated PNM header")
+    if (!/^\s|^#/.test(header[0])) tokens.push(header[0])
+    offset += header[0].length
+  }
+  offset++ // Single whitespace before the pixel data
+
+  const [magic, width, height, maxValue] = [tokens[0], Number(tokens[1]), Number(tokens[2]), Number(tokens[3])]
+  if ((magic !== "P5" && magic !== "P6") || maxValue > 255) throw new Error("Only binary 8-bit PGM/PPM is supported")
+  const channels = magic === "P6" ? 3 : 1
+
+  const data = new Uint8Array(width * height * 4)
+  for (let i = 0; i < width * height; i++) {
+    const source = offset + i * channels
+    // Gray repeats the single channel
+    const step = channels === 3 ? 1 : 0
+    data[i * 4] = buffer[source]
+    data[i * 4 + 1] = buffer[source + step]
+    data[i * 4 + 2] = buffer[source + 2 * step]
+    data[i * 4 + 3] = 255
+  }
+  return { data, width, height }
+}
+
+const readImage = (path: string) => {
+  const buffer = readFileSync(path)
+  if (buffer.subarray(0, 8).toString("hex") === PNG_SIGNATURE) return decodePng(buffer)
+  if (buffer[0] === 0x50) return decodeNetpbm(buffer)
+  throw new Error(`${path}: not a PNG or PNM image`)
+}
+
+// A lit face on a darker background at a known place, roughly what the cascade's regions expect
+const createSyntheticFace = (width = 320, height = 240): RGBAImage => {
+  const data = new Uint8Array(width * height * 4)
+  const face = { x: 110, y: 60, size: 100 }
+  const ellipse = (x: number, y: number, cx: number, cy: number, rx: number, ry: number) =>
+    ((x - cx) / rx) ** 2 + ((y - cy) / ry) ** 2 <= 1
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const u = (x - face.x) / face.size
+      const v = (y - face.y) / face.size
+      let value = 60 + ((x * 7 + y * 13) % 17)
+      if (ellipse(u, v, 0.5, 0.5, 0.45, 0.55)) value = 185
+      if (ellipse(u, v, 0.3, 0.35, 0.1, 0.06) || ellipse(u, v, 0.7, 0.35, 0.1, 0.06)) value = 45
+      if (ellipse(u, v, 0.5, 0.78, 0.16, 0.05)) value = 90
+      data.set([value, value * 0.85, value * 0.75, 255], (y * width + x) * 4)
+    }
+  }
+  return { data, width, height }
+}
+
+const parseArgs = (args: string[]) => {
+  const options: CascadeOptions = { ...DEFAULT_CASCADE_OPTIONS }
+  const files: string[] = []
+  let runs = 20
+
+  for (let i = 0; i < args.length; i++) {
+    const value = Number(args[i + 1])
+    switch (args[i]) {
+      case "--runs":
+        runs = value
+        i++
+        break
+      case "--scale-factor":
+        options.scaleFactor = value
+        i++
+        break
+      case "--min-neighbors":
+        options.minNeighbors = value
+        i++
+        break
+      case "--max-faces":
+        options.maxFaces = value
+        i++
+        break
+      default:
+        files.push(args[i])
+    }
+  }
+  return { options, files, runs }
+}
+
+const benchmark = (name: string, image: RGBAImage, options: CascadeOptions, runs: number) => {
+  // One warm-up pass so the timings measure the optimized code
+  const faces = detectCascadeFaces(image, options)
+  const timings: number[] = []
+  for (let run = 0; run < runs; run++) {
+    const start = performance.now()
+    detectCascadeFaces(image, options)
+    timings.push(performance.now() - start)
+  }
+  timings.sort((a, b) => a - b)
+
+  const mean = timings.reduce((total, time) => total + time, 0) / timings.length
+  const median = timings[Math.floor(timings.length / 2)]
+  console.log(
+    `${name} (${image.width}x${image.height}): ${faces.length} face${faces.length === 1 ? "" : "s"}, ` +
+      `mean ${mean.toFixed(2)} ms, median ${median.toFixed(2)} ms, max ${timings[timings.length - 1].toFixed(2)} ms`,
+  )
+  for (const face of faces) {
+    console.log(
+      `  x=${Math.round(face.x)} y=${Math.round(face.y)} size=${Math.round(face.width)} neighbours=${face.score}`,
+    )
+  }
+}
+
+const { options, files, runs } = parseArgs(process.argv.slice(2))
+console.log(
+  `scaleFactor=${options.scaleFactor} minNeighbors=${options.minNeighbors} maxFaces=${options.maxFaces} runs=${runs}`,
+)
+
+if (files.length === 0) {
+  benchmark("synthetic face, expected near x=110 y=60 size=100", createSyntheticFace(), options, runs)
+}
+for (const file of files) {
+  benchmark(basename(file), readImage(file), options, runs)
+}
@@ -0,0 +1,67 @@
+// Downloads the MediaPipe Hands and Face Mesh builds into public/mediapipe so the detector loads its
+// scripts, WASM and models from this app instead of a CDN. Run once after install: pnpm mediapipe:assets
+
+import { mkdir, stat, writeFile } from "node:fs/promises"
+import path from "node:path"
+import { fileURLToPath } from "node:url"
+
+const CDN = "https://cdn.jsdelivr.net/npm/@mediapipe"
+const OUTPUT_DIR = path.join(path.dirname(fileURLToPath(import.meta.url)), "..", "public", "mediapipe")
+
+// Versions are pinned, the solution files reference each other by name
+const PACKAGES = {
+  hands: {
+    version: "0.4.1675469240",
+    files: [
+      "hands.js",
+      "hands.binarypb",
+      "hands_solution_packed_assets.data",
+      "hands_solution_packed_assets_loader.js",
+      "hands_solution_simd_wasm_bin.js",
+      "hands_solution_simd_wasm_bin.wasm",
+      "hands_solution_wasm_bin.js",
+      "hands_solution_wasm_bin.wasm",
+      "hand_landmark_full.tflite",
+      "hand_landmark_lite.tflite",
+    ],
+  },
+  face_mesh: {
+    version: "0.4.1633559619",
+    files: [
+      "face_mesh.js",
+      "face_mesh.binarypb",
+      "face_mesh_solution_packed_assets.data",
+      "face_mesh_solution_packed_assets_loader.js",
+      "face_mesh_solution_simd_wasm_bin.js",
+      "face_mesh_solution_simd_wasm_bin.wasm",
+      "face_mesh_solution_wasm_bin.js",
+      "face_mesh_solution_wasm_bin.wasm",
+    ],
+  },
+}
+
+const exists = (file) =>
+  stat(file).then(
+    (info) => info.size > 0,
+    () => false,
+  )
+
+const force = process.argv.includes("--force")
+
+for (const [name, { version, files }] of Object.entries(PACKAGES)) {
+  const directory = path.join(OUTPUT_DIR, name)
+  await mkdir(directory, { recursive: true })
+
+  for (const file of files) {
+    const target = path.join(directory, file)
+    if (!force && (await exists(target))) continue
+
+    const url = `${CDN}/${name}@${version}/${file}`
+    const response = await fetch(url)
+    if (!response.ok) throw new Error(`${url}: HTTP ${response.status}`)
+    await writeFile(target, new Uint8Array(await response.arrayBuffer()))
+    console.log(`${name}/${file}`)
+  }
+}
+
+console.log(`MediaPipe assets are in ${path.relative(process.cwd(), OUTPUT_DIR)}`)